@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { X } from 'lucide-react';
+import type { AcronymEntry, AcronymReading } from '@/lib/acronymLexicon';
+
+interface AcronymSettingsProps {
+  /** Acronyms added by the user */
+  entries: AcronymEntry[];
+  onChange: (entries: AcronymEntry[]) => void;
+}
+
+const READING_LABELS: Record<AcronymReading, string> = {
+  spell: 'Spell out',
+  word: 'Say as a word',
+  expand: 'Expand',
+};
+
+const AcronymSettings: React.FC<AcronymSettingsProps> = ({ entries, onChange }) => {
+  const [term, setTerm] = useState('');
+  const [reading, setReading] = useState<AcronymReading>('spell');
+  const [expansion, setExpansion] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const addEntry = () => {
+    const trimmed = term.trim();
+    if (!trimmed) {
+      setError('Enter the acronym as it is written.');
+      return;
+    }
+    if (reading === 'expand' && !expansion.trim()) {
+      setError('Enter the text to read instead.');
+      return;
+    }
+
+    const entry: AcronymEntry = reading === 'expand'
+      ? { term: trimmed, reading, expansion: expansion.trim() }
+      : { term: trimmed, reading };
+    onChange([...entries.filter(existing => existing.term !== trimmed), entry]);
+    setTerm('');
+    setExpansion('');
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="acronym-term">Acronyms</Label>
+      {entries.length > 0 && (
+        <ul className="space-y-1">
+          {entries.map((entry) => (
+            <li key={entry.term} className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{entry.term}</span>
+              <span className="flex-1 text-muted-foreground truncate">
+                {entry.reading === 'expand' ? `"${entry.expansion}"` : READING_LABELS[entry.reading]}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(entries.filter(existing => existing !== entry))}
+                aria-label={`Remove ${entry.term}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Input
+          id="acronym-term"
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+          placeholder="e.g. SQL"
+          className="w-32"
+        />
+        <Select value={reading} onValueChange={(value) => setReading(value as AcronymReading)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(READING_LABELS) as AcronymReading[]).map(value => (
+              <SelectItem key={value} value={value}>{READING_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {reading === 'expand' && (
+          <Input
+            value={expansion}
+            onChange={(e) => setExpansion(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+            placeholder="Read as..."
+          />
+        )}
+        <Button variant="outline" onClick={addEntry}>
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default AcronymSettings;
@@ -0,0 +1,510 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { ChevronDown, FileText } from 'lucide-react';
+import AcronymSettings from './AcronymSettings';
+import PronunciationSettings from './PronunciationSettings';
+import VoiceSettings from './VoiceSettings';
+import { loadUserAcronyms, saveUserAcronyms, type AcronymEntry } from '@/lib/acronymLexicon';
+import { flattenChapters, type Chapter } from '@/lib/chapterDetection';
+import {
+  findBackMatterChapters,
+  findBibliographyChapters,
+  formatPageRanges,
+  parsePageRanges,
+  type DocumentSelection,
+} from '@/lib/documentSelection';
+import type { BoilerplateKind, ExtractedDocument } from '@/lib/extractedDocument';
+import { openPdfPreview } from '@/lib/pdfThumbnails';
+import { countFigures, type FigureMode } from '@/lib/figureDetection';
+import { countEquations, type MathMode } from '@/lib/mathNarration';
+import { countCodeBlocks, type CodeMode } from '@/lib/codeBlocks';
+import type { LinkMode } from '@/lib/linkReading';
+import {
+  DEFAULT_NARRATION_OPTIONS,
+  loadProjectNarration,
+  saveProjectNarration,
+  type NarrationOptions,
+  type ProjectNarrationOptions,
+} from '@/lib/narrationOptions';
+import { countFootnotes, type FootnoteMode, type ReferenceHandling } from '@/lib/referenceHandling';
+import { countTables, type TableMode } from '@/lib/tableDetection';
+import {
+  loadPronunciationLexicon,
+  resolvePronunciations,
+  savePronunciationLexicon,
+  type PronunciationLexicon,
+} from '@/lib/pronunciationLexicon';
+import { getProjectId } from '@/lib/projectStorage';
+import { ELEVENLABS_PROVIDER_ID } from '@/lib/elevenLabsProvider';
+import { getTTSConfig, loadElevenLabsApiKey, loadTTSVoice, saveTTSProvider, saveTTSVoice } from '@/lib/ttsConfig';
+import { TextToSpeechService } from '@/lib/ttsService';
+
+interface ConversionSetupProps {
+  file: File;
+  /** Password the file was opened with, if it is encrypted */
+  password?: string;
+  document: ExtractedDocument;
+  chapters: Chapter[];
+  onConvert: (selection: DocumentSelection, narration: NarrationOptions) => void;
+  onCancel: () => void;
+}
+
+const THUMBNAIL_WIDTH = 96;
+
+const BOILERPLATE_LABELS: Record<BoilerplateKind, string> = {
+  header: 'Header',
+  footer: 'Footer',
+  'page-number': 'Page number',
+  watermark: 'Watermark',
+};
+/** OCR pages below this mean confidence are flagged for review */
+const LOW_OCR_CONFIDENCE = 60;
+
+const ConversionSetup: React.FC<ConversionSetupProps> = ({ file, password, document, chapters, onConvert, onCancel }) => {
+  const allPages = useMemo(() => document.pages.map(page => page.pageNumber), [document]);
+  const flatChapters = useMemo(() => flattenChapters(chapters), [chapters]);
+  const backMatterIds = useMemo(() => findBackMatterChapters(chapters), [chapters]);
+  const footnoteCount = useMemo(() => countFootnotes(document), [document]);
+  const tableCount = useMemo(() => countTables(document), [document]);
+  const figureCount = useMemo(() => countFigures(document), [document]);
+  const equationCount = useMemo(() => countEquations(document), [document]);
+  const codeCount = useMemo(() => countCodeBlocks(document), [document]);
+  const ocrConfidence = useMemo(() => {
+    const confidence: Record<number, number> = {};
+    for (const page of document.pages) {
+      if (page.ocrConfidence !== undefined) confidence[page.pageNumber] = page.ocrConfidence;
+    }
+    return confidence;
+  }, [document]);
+
+  const [selectedPages, setSelectedPages] = useState<Set<number>>(() => new Set(allPages));
+  // The bibliography is skipped unless the user ticks it back in
+  const [excludedChapterIds, setExcludedChapterIds] = useState<Set<string>>(() => {
+    const bibliographyIds = new Set(findBibliographyChapters(chapters));
+    return new Set(flattenChapters(flatChapters.filter(chapter => bibliographyIds.has(chapter.id))).map(chapter => chapter.id));
+  });
+  const projectId = useMemo(() => getProjectId(file), [file]);
+  const [lexicon, setLexicon] = useState<PronunciationLexicon>(() => loadPronunciationLexicon(projectId));
+  const [narration, setNarration] = useState<NarrationOptions>(() => ({
+    ...DEFAULT_NARRATION_OPTIONS,
+    ...loadProjectNarration(projectId),
+    acronyms: loadUserAcronyms(),
+    pronunciations: resolvePronunciations(lexicon),
+  }));
+  const [rangeInput, setRangeInput] = useState(() => formatPageRanges(allPages));
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [providerId, setProviderId] = useState(() => getTTSConfig().providerId);
+  const [voiceId, setVoiceId] = useState(() => getTTSConfig().voiceId);
+  const needsApiKey = providerId === ELEVENLABS_PROVIDER_ID;
+  const [apiKey, setApiKey] = useState(() => loadElevenLabsApiKey() || '');
+  const selectedText = useMemo(
+    () => document.pages.filter(page => selectedPages.has(page.pageNumber)).map(page => page.text).join('\n\n'),
+    [document, selectedPages]
+  );
+
+  // Render thumbnails one page at a time so the first ones show up quickly
+  useEffect(() => {
+    let cancelled = false;
+    let destroy: (() => Promise<void>) | null = null;
+
+    (async () => {
+      try {
+        const preview = await openPdfPreview(file, password);
+        // Unmounted while the PDF was opening: the cleanup below had nothing to destroy yet
+        if (cancelled) {
+          await preview.destroy();
+          return;
+        }
+        destroy = preview.destroy;
+        for (const pageNumber of allPages) {
+          if (cancelled) break;
+          const url = await preview.renderThumbnail(pageNumber, THUMBNAIL_WIDTH);
+          if (!cancelled) setThumbnails(previous => ({ ...previous, [pageNumber]: url }));
+        }
+      } catch (error) {
+        console.error('Error rendering page thumbnails:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      destroy?.();
+    };
+  }, [file, password, allPages]);
+
+  const updatePages = (pages: Set<number>) => {
+    setSelectedPages(pages);
+    setRangeInput(formatPageRanges([...pages]));
+    setRangeError(null);
+  };
+
+  const togglePage = (pageNumber: number) => {
+    const pages = new Set(selectedPages);
+    if (pages.has(pageNumber)) pages.delete(pageNumber);
+    else pages.add(pageNumber);
+    updatePages(pages);
+  };
+
+  const applyRangeInput = () => {
+    try {
+      updatePages(new Set(parsePageRanges(rangeInput, document.pageCount)));
+    } catch (error) {
+      setRangeError(error instanceof Error ? error.message : 'Invalid page range.');
+    }
+  };
+
+  // Excluding a chapter also excludes its sub-sections
+  const toggleChapter = (chapter: Chapter, include: boolean) => {
+    const ids = new Set(excludedChapterIds);
+    for (const entry of flattenChapters([chapter])) {
+      if (include) ids.delete(entry.id);
+      else ids.add(entry.id);
+    }
+    setExcludedChapterIds(ids);
+  };
+
+  const excludeBackMatter = () => {
+    const ids = new Set(excludedChapterIds);
+    for (const chapter of flatChapters.filter(c => backMatterIds.includes(c.id))) {
+      flattenChapters([chapter]).forEach(entry => ids.add(entry.id));
+    }
+    setExcludedChapterIds(ids);
+  };
+
+  const updateReferences = (changes: Partial<ReferenceHandling>) => {
+    setNarration({ ...narration, references: { ...narration.references, ...changes } });
+  };
+
+  const updateAcronyms = (acronyms: AcronymEntry[]) => {
+    setNarration({ ...narration, acronyms });
+    saveUserAcronyms(acronyms);
+  };
+
+  // Code and link reading depend on the document, so they are saved for this project only
+  const updateProjectNarration = (changes: Partial<ProjectNarrationOptions>) => {
+    const updated = { ...narration, ...changes };
+    setNarration(updated);
+    saveProjectNarration(updated, projectId);
+  };
+
+  // Shared pronunciations are saved for every document, overrides for this one
+  const updateLexicon = (updated: PronunciationLexicon) => {
+    setLexicon(updated);
+    setNarration({ ...narration, pronunciations: resolvePronunciations(updated) });
+    savePronunciationLexicon(updated, projectId);
+  };
+
+  // The engine choice is shared by every document
+  const updateProvider = (id: string) => {
+    setProviderId(id);
+    setVoiceId(loadTTSVoice(id));
+    saveTTSProvider(id);
+  };
+
+  const updateVoice = (id?: string) => {
+    setVoiceId(id);
+    saveTTSVoice(providerId, id);
+  };
+
+  // The key stays in this browser; it is never part of the build
+  const updateApiKey = (value: string) => {
+    setApiKey(value);
+    TextToSpeechService.getInstance().setElevenLabsApiKey(value.trim());
+  };
+
+  const handleConvert = () => {
+    onConvert({
+      pages: [...selectedPages].sort((a, b) => a - b),
+      excludedChapterIds: [...excludedChapterIds],
+    }, narration);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-3xl mx-auto p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <FileText className="h-6 w-6 text-primary" />
+          <div>
+            <h3 className="text-lg font-medium">{document.title || document.fileName}</h3>
+            <p className="text-sm text-muted-foreground">
+              {selectedPages.size} of {document.pageCount} pages selected
+              {excludedChapterIds.size > 0 && `, ${excludedChapterIds.size} sections excluded`}
+            </p>
+          </div>
+        </div>
+
+        {/* Page Range */}
+        <div className="space-y-2">
+          <Label htmlFor="page-range">Pages</Label>
+          <div className="flex gap-2">
+            <Input
+              id="page-range"
+              value={rangeInput}
+              onChange={(e) => setRangeInput(e.target.value)}
+              onBlur={applyRangeInput}
+              onKeyDown={(e) => e.key === 'Enter' && applyRangeInput()}
+              placeholder="e.g. 1-5, 10-25"
+            />
+            <Button variant="outline" onClick={() => updatePages(new Set(allPages))}>
+              All
+            </Button>
+          </div>
+          {rangeError && <p className="text-sm text-destructive">{rangeError}</p>}
+        </div>
+
+        {/* Page Thumbnails */}
+        <ScrollArea className="h-56 rounded border">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-3 p-3">
+            {allPages.map((pageNumber) => (
+              <button
+                key={pageNumber}
+                onClick={() => togglePage(pageNumber)}
+                className={`flex flex-col items-center gap-1 rounded p-1 border-2 transition-all ${
+                  selectedPages.has(pageNumber) ? 'border-primary' : 'border-transparent opacity-40'
+                }`}
+              >
+                {thumbnails[pageNumber] ? (
+                  <img src={thumbnails[pageNumber]} alt={`Page ${pageNumber}`} className="w-full bg-white shadow-sm" />
+                ) : (
+                  <div className="w-full aspect-[3/4] bg-secondary animate-pulse rounded" />
+                )}
+                <span className="text-xs text-muted-foreground">{pageNumber}</span>
+                {ocrConfidence[pageNumber] !== undefined && (
+                  <span
+                    className={`text-[10px] ${ocrConfidence[pageNumber] < LOW_OCR_CONFIDENCE ? 'text-destructive' : 'text-muted-foreground'}`}
+                    title="This page is a scan; its text was recognized with OCR"
+                  >
+                    OCR {Math.round(ocrConfidence[pageNumber])}%
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+
+        {/* Sections */}
+        {flatChapters.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Sections</Label>
+              {backMatterIds.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={excludeBackMatter}>
+                  Skip references and appendices
+                </Button>
+              )}
+            </div>
+            <ScrollArea className="h-48 rounded border">
+              <div className="p-3 space-y-2">
+                {flatChapters.map((chapter) => (
+                  <label
+                    key={chapter.id}
+                    className="flex items-center gap-2 text-sm cursor-pointer"
+                    style={{ paddingLeft: `${(chapter.level - 1) * 1.25}rem` }}
+                  >
+                    <Checkbox
+                      checked={!excludedChapterIds.has(chapter.id)}
+                      onCheckedChange={(checked) => toggleChapter(chapter, checked === true)}
+                    />
+                    <span className="flex-1 truncate">{chapter.title}</span>
+                    <span className="text-xs text-muted-foreground">p. {chapter.pageNumber}</span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        {/* Repeated Page Text */}
+        {document.removedText.length > 0 && (
+          <Collapsible className="space-y-2">
+            <CollapsibleTrigger className="group flex w-full items-center justify-between text-sm font-medium">
+              <span>
+                Skipped repeated page text{' '}
+                <span className="text-muted-foreground">({document.removedText.length} found)</span>
+              </span>
+              <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <ul className="space-y-1 rounded border p-3">
+                {document.removedText.map((removed, index) => (
+                  <li key={index} className="flex items-center gap-2 text-sm">
+                    <span className="w-24 shrink-0 text-muted-foreground">{BOILERPLATE_LABELS[removed.kind]}</span>
+                    <span className="flex-1 truncate" title={removed.text}>{removed.text}</span>
+                    <span className="text-xs text-muted-foreground">p. {formatPageRanges(removed.pages)}</span>
+                  </li>
+                ))}
+              </ul>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
+        {/* Citations, Footnotes, Tables, Figures, Equations, Code and Links */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="skip-citations">Skip inline citations such as [12] or (Smith et al., 2019)</Label>
+            <Switch
+              id="skip-citations"
+              checked={narration.references.skipCitations}
+              onCheckedChange={(checked) => updateReferences({ skipCitations: checked })}
+            />
+          </div>
+          {footnoteCount > 0 && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="footnote-mode">
+                Footnotes <span className="text-muted-foreground">({footnoteCount} found)</span>
+              </Label>
+              <Select
+                value={narration.references.footnotes}
+                onValueChange={(value) => updateReferences({ footnotes: value as FootnoteMode })}
+              >
+                <SelectTrigger id="footnote-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="inline">Read where cited</SelectItem>
+                  <SelectItem value="section-end">Read at end of section</SelectItem>
+                  <SelectItem value="drop">Leave out</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {tableCount > 0 && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="table-mode">
+                Tables <span className="text-muted-foreground">({tableCount} found)</span>
+              </Label>
+              <Select
+                value={narration.tables}
+                onValueChange={(value) => setNarration({ ...narration, tables: value as TableMode })}
+              >
+                <SelectTrigger id="table-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rows">Read row by row</SelectItem>
+                  <SelectItem value="summary">Give size and columns only</SelectItem>
+                  <SelectItem value="skip">Leave out</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {figureCount > 0 && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="figure-mode">
+                Figures <span className="text-muted-foreground">({figureCount} found)</span>
+              </Label>
+              <Select
+                value={narration.figures}
+                onValueChange={(value) => setNarration({ ...narration, figures: value as FigureMode })}
+              >
+                <SelectTrigger id="figure-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="announce">Announce with caption</SelectItem>
+                  <SelectItem value="skip">Leave out</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {equationCount > 0 && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="math-mode">
+                Equations <span className="text-muted-foreground">({equationCount} found)</span>
+              </Label>
+              <Select
+                value={narration.math}
+                onValueChange={(value) => setNarration({ ...narration, math: value as MathMode })}
+              >
+                <SelectTrigger id="math-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="read">Read out in words</SelectItem>
+                  <SelectItem value="omit">Say "equation omitted"</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {codeCount > 0 && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="code-mode">
+                Code blocks <span className="text-muted-foreground">({codeCount} found)</span>
+              </Label>
+              <Select
+                value={narration.code}
+                onValueChange={(value) => updateProjectNarration({ code: value as CodeMode })}
+              >
+                <SelectTrigger id="code-mode" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="summarize">Give length only</SelectItem>
+                  <SelectItem value="verbatim">Read line by line</SelectItem>
+                  <SelectItem value="skip">Leave out</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="link-mode">Web addresses</Label>
+            <Select
+              value={narration.links}
+              onValueChange={(value) => updateProjectNarration({ links: value as LinkMode })}
+            >
+              <SelectTrigger id="link-mode" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="domain">Read the site name only</SelectItem>
+                <SelectItem value="full">Read the full address</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Acronyms */}
+        <AcronymSettings entries={narration.acronyms} onChange={updateAcronyms} />
+
+        {/* Pronunciations */}
+        <PronunciationSettings
+          lexicon={lexicon}
+          onChange={updateLexicon}
+          locale={getTTSConfig().locale}
+          readsPhonemes={TextToSpeechService.getInstance().readsPhonemes(providerId)}
+        />
+
+        {/* Speech Engine */}
+        <VoiceSettings
+          providerId={providerId}
+          onProviderChange={updateProvider}
+          voiceId={voiceId}
+          onVoiceChange={updateVoice}
+          apiKey={apiKey}
+          onApiKeyChange={updateApiKey}
+          text={selectedText}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleConvert} disabled={selectedPages.size === 0 || (needsApiKey && !apiKey.trim())}>
+            Convert selection
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ConversionSetup;
@@ -1,46 +1,151 @@
 import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Upload, Loader2, FileText } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Upload, FileText } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import VideoPlayerWithCaptions from './VideoPlayerWithCaptions';
+import VideoPlayerWithCaptions, { type AudioSegment } from './VideoPlayerWithCaptions';
+import ConversionSetup from './ConversionSetup';
+import PasswordDialog from './PasswordDialog';
 import { TextToSpeechService } from '../lib/ttsService';
-import { generateCaptions, estimateAudioDuration, type CaptionSegment } from '../lib/captionGenerator';
-import { extractTextFromPDF } from '../lib/pdfExtractor';
+import { getTTSConfig } from '../lib/ttsConfig';
+import { generateSectionCaptions, type CaptionSegment } from '../lib/captionGenerator';
+import { detectChapters, flattenChapters, type Chapter, type ChapterMark } from '../lib/chapterDetection';
+import { applySelection, type DocumentSelection } from '../lib/documentSelection';
+import { applyNarrationOptions, type NarrationOptions } from '../lib/narrationOptions';
+import { splitIntoSpeechSections } from '../lib/speechSections';
+import type { ExtractedDocument } from '../lib/extractedDocument';
+import { extractInBackground, isAbortError } from '../lib/extractionClient';
+import type { ExtractionProgress } from '../lib/pdfExtractor';
+import { PdfPasswordError, PdfPermissionError, PdfUnsupportedEncryptionError } from '../lib/pdfErrors';
+
+interface VideoData {
+  segments: AudioSegment[];
+  captions: CaptionSegment[];
+  chapters: ChapterMark[];
+  /** True while later segments are still being synthesized */
+  isGenerating: boolean;
+}
+
+interface ProcessingProgress {
+  label: string;
+  /** Percentage, 0-100 */
+  value: number;
+}
+
+interface PendingConversion {
+  file: File;
+  password?: string;
+  extracted: ExtractedDocument;
+  chapters: Chapter[];
+}
 
 const PDFToSpeechApp: React.FC = () => {
   const { toast } = useToast();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [videoData, setVideoData] = useState<{
-    audioUrl: string;
-    captions: CaptionSegment[];
-  } | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [videoData, setVideoData] = useState<VideoData | null>(null);
+  const [pending, setPending] = useState<PendingConversion | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<{ file: File; incorrect: boolean } | null>(null);
   const [isDragActive, setIsDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const segmentUrlsRef = useRef<string[]>([]);
 
   // Background video URL - you can change this to your desired video
   const BACKGROUND_VIDEO_URL = '/background-video.mp4'; // Place your video in the public folder
+  const CHUNK_PAUSE_MS = 250;
+
+  const describeExtraction = ({ stage, page, pageCount }: ExtractionProgress): ProcessingProgress => {
+    const done = stage === 'analyzing' ? pageCount : page - 1;
+    const label = stage === 'recognizing'
+      ? `Recognizing scanned page ${page} of ${pageCount}...`
+      : stage === 'analyzing'
+        ? 'Analyzing layout and chapters...'
+        : `Reading page ${page} of ${pageCount}...`;
+    return { label, value: pageCount > 0 ? (done / pageCount) * 100 : 0 };
+  };
+
+  const startProcessing = (): AbortSignal => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsProcessing(true);
+    return controller.signal;
+  };
 
-  const generateSpeechAndCaptions = async (text: string): Promise<{ audioUrl: string; captions: CaptionSegment[] }> => {
+  const stopProcessing = () => {
+    abortControllerRef.current = null;
+    setIsProcessing(false);
+    setProgress(null);
+  };
+
+  const handleCancel = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    abortControllerRef.current?.abort();
+  };
+
+  /**
+   * Synthesizes the document section by section, calling onSegment as each
+   * piece of audio is ready so playback can start on the first one
+   */
+  const streamSpeechAndCaptions = async (
+    extracted: ExtractedDocument,
+    narration: NarrationOptions,
+    signal: AbortSignal,
+    onSegment: (data: VideoData) => void
+  ): Promise<void> => {
     const ttsService = TextToSpeechService.getInstance();
-    
-    // Generate speech audio
-    const audioBlob = await ttsService.generateSpeech(text, {
+    const ttsConfig = getTTSConfig();
+    const chapters = flattenChapters(detectChapters(extracted));
+
+    // Every chapter starts its own section, so it gets an exact start time
+    const sections = splitIntoSpeechSections(extracted, chapters.map(chapter => chapter.startOffset));
+    const stream = ttsService.streamSpeech(sections, {
       rate: 0.9,
       pitch: 1.0,
-      volume: 1.0
-    });
-    
-    const audioUrl = URL.createObjectURL(audioBlob);
-    
-    // Estimate duration and generate captions
-    const estimatedDuration = estimateAudioDuration(text);
-    const captions = generateCaptions(text, estimatedDuration, 6); // 6 words per caption segment
-    
-    return { audioUrl, captions };
+      volume: 1.0,
+      voiceId: ttsConfig.voiceId,
+      chunkPauseMs: CHUNK_PAUSE_MS,
+      signal,
+      locale: ttsConfig.locale,
+      acronyms: narration.acronyms,
+      pronunciations: narration.pronunciations,
+      links: narration.links,
+    }, ttsConfig.providerId);
+
+    const data: VideoData = { segments: [], captions: [], chapters: [], isGenerating: true };
+    for await (const segment of stream) {
+      signal.throwIfAborted();
+      const section = sections[segment.sourceIndex];
+      const sectionEnd = section.textStart + section.text.length;
+
+      const url = URL.createObjectURL(segment.blob);
+      segmentUrlsRef.current.push(url);
+
+      // Chapters starting in this section, or in skipped sections before it
+      const marked = new Set(data.chapters.map(mark => mark.id));
+      const newMarks: ChapterMark[] = chapters
+        .filter(chapter => !marked.has(chapter.id) && chapter.startOffset < sectionEnd)
+        .map(chapter => ({ id: chapter.id, title: chapter.title, level: chapter.level, start: segment.start }));
+      const chapterMarks = [...data.chapters, ...newMarks];
+
+      // Caption timing is spread over the segment, leaving out its trailing pause
+      const end = segment.start + Math.max(0, segment.duration - CHUNK_PAUSE_MS / 1000);
+      const captions = generateSectionCaptions([{ text: section.text, start: segment.start, end }], 6, chapterMarks); // 6 words per caption segment
+
+      data.segments = [...data.segments, { url, start: segment.start, duration: segment.duration }];
+      data.captions = [...data.captions, ...captions];
+      data.chapters = chapterMarks;
+      setProgress({
+        label: `Generating speech ${segment.sourceIndex + 1} of ${sections.length}...`,
+        value: ((segment.sourceIndex + 1) / sections.length) * 100,
+      });
+      onSegment({ ...data });
+    }
+    onSegment({ ...data, isGenerating: false });
   };
 
-  const handleFileUpload = async (file: File) => {
+  const handleFileUpload = async (file: File, password?: string) => {
     if (file.type !== 'application/pdf') {
       toast({
         title: "Invalid file type",
@@ -50,11 +155,17 @@ const PDFToSpeechApp: React.FC = () => {
       return;
     }
 
-    setIsProcessing(true);
+    const signal = startProcessing();
+    setProgress({ label: 'Opening PDF...', value: 0 });
 
     try {
-      // Step 1: Extract text from PDF using the new extraction method
-      const text = await extractTextFromPDF(file);
+      // Step 1: Extract the structured document from the PDF, off the main thread
+      const { document: extracted, chapters } = await extractInBackground(file, {
+        password,
+        signal,
+        onProgress: update => setProgress(describeExtraction(update)),
+      });
+      const text = extracted.text;
       
       if (!text.trim()) {
         toast({
@@ -62,33 +173,101 @@ const PDFToSpeechApp: React.FC = () => {
           description: "The PDF appears to be empty or contains no readable text.",
           variant: "destructive",
         });
-        setIsProcessing(false);
         return;
       }
 
-      // Step 2: Generate speech audio and captions
-      const { audioUrl, captions } = await generateSpeechAndCaptions(text);
+      // Step 2: Let the user pick pages and sections before converting
+      setPending({ file, password, extracted, chapters });
+    } catch (error) {
+      if (isAbortError(error)) {
+        resetApp();
+        return;
+      }
+      if (error instanceof PdfPasswordError) {
+        setPasswordPrompt({ file, incorrect: error.incorrect });
+        return;
+      }
 
-      setVideoData({ audioUrl, captions });
+      console.error('Error processing PDF:', error);
+      const errorMessage = error instanceof Error ? error.message : "There was an error reading your PDF. Please try again.";
+      toast({
+        title: error instanceof PdfUnsupportedEncryptionError
+          ? "Unsupported encryption"
+          : error instanceof PdfPermissionError
+            ? "Text extraction not permitted"
+            : "Processing failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      stopProcessing();
+    }
+  };
+
+  const handleConvert = async (selection: DocumentSelection, narration: NarrationOptions) => {
+    if (!pending) return;
+    const conversion = pending;
+
+    const selected = applyNarrationOptions(applySelection(conversion.extracted, conversion.chapters, selection), narration);
+    if (!selected.text.trim()) {
+      toast({
+        title: "Nothing to convert",
+        description: "The selected pages and sections contain no readable text.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPending(null);
+    const signal = startProcessing();
+    setProgress({ label: 'Preparing speech...', value: 0 });
+    let playbackStarted = false;
+
+    try {
+      // Step 3: Generate speech audio and captions for the selection,
+      // switching to the player as soon as the first segment is ready
+      await streamSpeechAndCaptions(selected, narration, signal, (data) => {
+        playbackStarted = true;
+        setVideoData(data);
+      });
       
+      const removedCount = selected.removedText.length;
+
       toast({
         title: "Video created successfully!",
-        description: "Your PDF has been converted to a captioned video.",
+        description: removedCount > 0
+          ? `Your PDF has been converted to a captioned video. Skipped ${removedCount} repeated header, footer, page number or watermark pattern${removedCount === 1 ? '' : 's'}.`
+          : "Your PDF has been converted to a captioned video.",
       });
 
     } catch (error) {
+      if (isAbortError(error)) {
+        // Back to the selection screen, keeping the extracted document
+        if (!playbackStarted) setPending(conversion);
+        return;
+      }
+
       console.error('Error processing PDF:', error);
       const errorMessage = error instanceof Error ? error.message : "There was an error creating your video. Please try again.";
+      // Keep whatever audio was already generated playable
+      setVideoData(current => current && { ...current, isGenerating: false });
       toast({
-        title: "Processing failed",
+        title: playbackStarted ? "Audio generation stopped" : "Processing failed",
         description: errorMessage,
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      stopProcessing();
     }
   };
 
+  const handlePasswordSubmit = (password: string) => {
+    if (!passwordPrompt) return;
+    const { file } = passwordPrompt;
+    setPasswordPrompt(null);
+    handleFileUpload(file, password);
+  };
+
   const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -116,7 +295,12 @@ const PDFToSpeechApp: React.FC = () => {
   };
 
   const resetApp = () => {
+    abortControllerRef.current?.abort();
+    segmentUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    segmentUrlsRef.current = [];
     setVideoData(null);
+    setPending(null);
+    setPasswordPrompt(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -126,13 +310,28 @@ const PDFToSpeechApp: React.FC = () => {
     return (
       <VideoPlayerWithCaptions
         backgroundVideoUrl={BACKGROUND_VIDEO_URL}
-        audioUrl={videoData.audioUrl}
+        segments={videoData.segments}
+        isGenerating={videoData.isGenerating}
         captions={videoData.captions}
+        chapters={videoData.chapters}
         onReset={resetApp}
       />
     );
   }
 
+  if (pending) {
+    return (
+      <ConversionSetup
+        file={pending.file}
+        password={pending.password}
+        document={pending.extracted}
+        chapters={pending.chapters}
+        onConvert={handleConvert}
+        onCancel={resetApp}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md mx-auto">
@@ -146,7 +345,7 @@ const PDFToSpeechApp: React.FC = () => {
               ? 'border-primary bg-upload-hover' 
               : 'border-upload-border hover:border-primary hover:bg-upload-hover'
             }
-            ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}
+            ${isProcessing ? 'cursor-default' : ''}
           `}
           onClick={() => !isProcessing && fileInputRef.current?.click()}
         >
@@ -160,29 +359,44 @@ const PDFToSpeechApp: React.FC = () => {
           />
           
           <div className="flex flex-col items-center gap-4">
-            {isProcessing ? (
-              <Loader2 className="h-12 w-12 text-loading animate-spin" />
-            ) : (
+            {!isProcessing && (
               <div className="relative">
                 <Upload className="h-12 w-12 text-muted-foreground" />
                 <FileText className="h-6 w-6 text-primary absolute -bottom-1 -right-1 bg-background rounded" />
               </div>
             )}
             
-            <div className="space-y-2">
+            <div className="space-y-2 w-full">
               <h3 className="text-lg font-medium">
                 {isProcessing ? 'Creating Video...' : 'Add PDF'}
               </h3>
               <p className="text-sm text-muted-foreground">
                 {isProcessing 
-                  ? 'Converting your PDF to a captioned video'
+                  ? progress?.label || 'Converting your PDF to a captioned video'
                   : 'Drop your PDF here or click to browse'
                 }
               </p>
             </div>
+
+            {isProcessing && (
+              <>
+                <Progress value={progress?.value || 0} className="h-2" />
+                <Button variant="outline" size="sm" onClick={handleCancel}>
+                  Cancel
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </Card>
+
+      <PasswordDialog
+        open={passwordPrompt !== null}
+        fileName={passwordPrompt?.file.name || ''}
+        incorrect={passwordPrompt?.incorrect || false}
+        onSubmit={handlePasswordSubmit}
+        onCancel={resetApp}
+      />
     </div>
   );
 };
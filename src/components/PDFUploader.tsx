@@ -3,9 +3,11 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Upload, FileText, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { extractDocument } from '@/lib/pdfExtractor';
+import type { ExtractedDocument } from '@/lib/extractedDocument';
 
 interface PDFUploaderProps {
-  onFileProcessed: (text: string, filename: string) => void;
+  onFileProcessed: (text: string, filename: string, document: ExtractedDocument) => void;
   isProcessing: boolean;
 }
 
@@ -13,22 +15,6 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileProcessed, isProcessing
   const { toast } = useToast();
   const [isDragActive, setIsDragActive] = useState(false);
 
-  const extractTextFromPDF = async (file: File): Promise<string> => {
-    try {
-      // Convert file to ArrayBuffer
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Dynamic import to avoid issues with pdf-parse
-      const pdfParse = (await import('pdf-parse')).default;
-      
-      const data = await pdfParse(arrayBuffer);
-      return data.text;
-    } catch (error) {
-      console.error('Error extracting text from PDF:', error);
-      throw new Error('Failed to extract text from PDF');
-    }
-  };
-
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (!file) return;
@@ -43,8 +29,8 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileProcessed, isProcessing
     }
 
     try {
-      const text = await extractTextFromPDF(file);
-      if (!text.trim()) {
+      const extracted = await extractDocument(file);
+      if (!extracted.text.trim()) {
         toast({
           title: "Empty PDF",
           description: "The PDF appears to be empty or contains no readable text.",
@@ -52,7 +38,7 @@ const PDFUploader: React.FC<PDFUploaderProps> = ({ onFileProcessed, isProcessing
         });
         return;
       }
-      onFileProcessed(text, file.name);
+      onFileProcessed(extracted.text, file.name, extracted);
     } catch (error) {
       toast({
         title: "Error processing PDF",
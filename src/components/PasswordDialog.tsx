@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Lock } from 'lucide-react';
+
+interface PasswordDialogProps {
+  open: boolean;
+  fileName: string;
+  /** Set after a rejected attempt */
+  incorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+const PasswordDialog: React.FC<PasswordDialogProps> = ({ open, fileName, incorrect, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState('');
+
+  // Clear the field so every prompt starts empty
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    onSubmit(password);
+    setPassword('');
+  };
+
+  const handleCancel = () => {
+    setPassword('');
+    onCancel();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Password required
+            </DialogTitle>
+            <DialogDescription>
+              "{fileName}" is password-protected. Enter its password to open it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="pdf-password">Password</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              autoFocus
+              autoComplete="off"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {incorrect && (
+              <p className="text-sm text-destructive">The password is incorrect. Please try again.</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password}>
+              Unlock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PasswordDialog;
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Upload, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  parsePls,
+  resolvePronunciations,
+  toPls,
+  upsertPronunciations,
+  type PronunciationEntry,
+  type PronunciationLexicon,
+} from '@/lib/pronunciationLexicon';
+
+interface PronunciationSettingsProps {
+  lexicon: PronunciationLexicon;
+  onChange: (lexicon: PronunciationLexicon) => void;
+  /** Language written into exported lexicons */
+  locale: string;
+  /** Whether the chosen engine reads IPA; other engines only use respellings */
+  readsPhonemes: boolean;
+}
+
+type LexiconScope = keyof PronunciationLexicon;
+
+const PronunciationSettings: React.FC<PronunciationSettingsProps> = ({ lexicon, onChange, locale, readsPhonemes }) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [term, setTerm] = useState('');
+  const [respelling, setRespelling] = useState('');
+  const [phoneme, setPhoneme] = useState('');
+  const [scope, setScope] = useState<LexiconScope>('project');
+  const [error, setError] = useState<string | null>(null);
+
+  const addEntries = (entries: PronunciationEntry[]) => {
+    onChange({ ...lexicon, [scope]: upsertPronunciations(lexicon[scope], entries) });
+  };
+
+  const addEntry = () => {
+    const trimmed = term.trim();
+    if (!trimmed) {
+      setError('Enter the word as it is written.');
+      return;
+    }
+    if (!respelling.trim() && !phoneme.trim()) {
+      setError('Enter a respelling, an IPA transcription, or both.');
+      return;
+    }
+    if (!respelling.trim() && !readsPhonemes) {
+      setError('This speech engine ignores IPA. Enter a respelling too.');
+      return;
+    }
+
+    addEntries([{
+      term: trimmed,
+      ...(respelling.trim() ? { respelling: respelling.trim() } : {}),
+      ...(phoneme.trim() ? { phoneme: phoneme.trim(), alphabet: 'ipa' as const } : {}),
+    }]);
+    setTerm('');
+    setRespelling('');
+    setPhoneme('');
+    setError(null);
+  };
+
+  const removeEntry = (entryScope: LexiconScope, entry: PronunciationEntry) => {
+    onChange({ ...lexicon, [entryScope]: lexicon[entryScope].filter(existing => existing !== entry) });
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const entries = parsePls(await file.text());
+      addEntries(entries);
+      toast({
+        title: "Lexicon imported",
+        description: `Added ${entries.length} pronunciation${entries.length === 1 ? '' : 's'} from ${file.name}.`,
+      });
+    } catch (importError) {
+      toast({
+        title: "Import failed",
+        description: importError instanceof Error ? importError.message : "The lexicon could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([toPls(resolvePronunciations(lexicon), locale)], { type: 'application/pls+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'pronunciations.pls';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const listed: [LexiconScope, PronunciationEntry][] = [
+    ...lexicon.shared.map(entry => ['shared', entry] as [LexiconScope, PronunciationEntry]),
+    ...lexicon.project.map(entry => ['project', entry] as [LexiconScope, PronunciationEntry]),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="pronunciation-term">Pronunciations</Label>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import PLS
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleExport} disabled={listed.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            Export PLS
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pls,.xml,application/pls+xml"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+      {listed.length > 0 && (
+        <ul className="space-y-1">
+          {listed.map(([entryScope, entry]) => (
+            <li key={`${entryScope}:${entry.term}`} className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{entry.term}</span>
+              <span className="flex-1 text-muted-foreground truncate">
+                {[entry.respelling && `"${entry.respelling}"`, entry.phoneme && `/${entry.phoneme}/`].filter(Boolean).join(' ')}
+              </span>
+              {!readsPhonemes && !entry.respelling && (
+                <span className="text-xs text-destructive">IPA ignored by this engine</span>
+              )}
+              {entryScope === 'project' && <span className="text-xs text-muted-foreground">This document</span>}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeEntry(entryScope, entry)}
+                aria-label={`Remove ${entry.term}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Input
+          id="pronunciation-term"
+          value={term}
+          onChange={(e) => setTerm(e.target.value)}
+          placeholder="e.g. Nguyen"
+        />
+        <Input
+          value={respelling}
+          onChange={(e) => setRespelling(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+          placeholder="Say it like..."
+        />
+        <Input
+          value={phoneme}
+          onChange={(e) => setPhoneme(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+          placeholder="IPA (optional)"
+        />
+        <Select value={scope} onValueChange={(value) => setScope(value as LexiconScope)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="project">This document</SelectItem>
+            <SelectItem value="shared">All documents</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={addEntry}>
+          Add
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default PronunciationSettings;
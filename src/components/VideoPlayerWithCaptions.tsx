@@ -2,43 +2,81 @@ import React, { useRef, useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Play, Pause, Volume2, VolumeX } from 'lucide-react';
+import type { ChapterMark } from '@/lib/chapterDetection';
 
 interface CaptionSegment {
   start: number;
   end: number;
   text: string;
+  chapterId?: string;
+}
+
+/** One separately generated audio file, placed on the overall timeline */
+export interface AudioSegment {
+  url: string;
+  /** Start time in seconds */
+  start: number;
+  duration: number;
 }
 
 interface VideoPlayerWithCaptionsProps {
   backgroundVideoUrl: string;
-  audioUrl: string;
+  /** Audio segments played back to back; more may be appended while playing */
+  segments: AudioSegment[];
+  /** True while later segments are still being generated */
+  isGenerating?: boolean;
   captions: CaptionSegment[];
+  chapters?: ChapterMark[];
   onReset?: () => void;
 }
 
 const VideoPlayerWithCaptions: React.FC<VideoPlayerWithCaptionsProps> = ({
   backgroundVideoUrl,
-  audioUrl,
+  segments,
+  isGenerating = false,
   captions,
+  chapters = [],
   onReset
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [segmentIndex, setSegmentIndex] = useState(0);
+  const [isWaiting, setIsWaiting] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [currentCaption, setCurrentCaption] = useState<string>('');
+  const [currentChapterId, setCurrentChapterId] = useState<string | null>(null);
+  // Read by media event handlers, which outlive the render that attached them
+  const isPlayingRef = useRef(false);
+  const pendingOffsetRef = useRef<number | null>(null);
+
+  const lastSegment = segments[segments.length - 1];
+  const duration = lastSegment ? lastSegment.start + lastSegment.duration : 0;
+  const segment = segments[segmentIndex];
+
+  const setPlaying = (playing: boolean) => {
+    isPlayingRef.current = playing;
+    setIsPlaying(playing);
+  };
+
+  // Continue once the segment we ran out at has been generated
+  useEffect(() => {
+    if (isWaiting && segmentIndex + 1 < segments.length) {
+      setIsWaiting(false);
+      setSegmentIndex(segmentIndex + 1);
+    }
+  }, [isWaiting, segmentIndex, segments.length]);
 
   useEffect(() => {
     const video = videoRef.current;
     const audio = audioRef.current;
 
-    if (!video || !audio) return;
+    if (!video || !audio || !segment) return;
 
     const updateTime = () => {
-      const time = audio.currentTime;
+      const time = segment.start + audio.currentTime;
       setCurrentTime(time);
       
       // Update video time to match audio
@@ -49,24 +87,42 @@ const VideoPlayerWithCaptions: React.FC<VideoPlayerWithCaptionsProps> = ({
       // Update current caption
       const caption = captions.find(cap => time >= cap.start && time <= cap.end);
       setCurrentCaption(caption ? caption.text : '');
+
+      // Update current chapter
+      const chapter = [...chapters].reverse().find(mark => time >= mark.start);
+      setCurrentChapterId(chapter ? chapter.id : null);
+    };
+
+    // A new segment was loaded: apply a pending seek and keep playing
+    const handleLoaded = () => {
+      if (pendingOffsetRef.current !== null) {
+        audio.currentTime = pendingOffsetRef.current;
+        pendingOffsetRef.current = null;
+      }
+      if (isPlayingRef.current) audio.play();
     };
 
-    const updateDuration = () => setDuration(audio.duration || 0);
     const handleEnded = () => {
-      setIsPlaying(false);
-      video.pause();
+      if (segmentIndex + 1 < segments.length) {
+        setSegmentIndex(segmentIndex + 1);
+      } else if (isGenerating) {
+        setIsWaiting(true);
+      } else {
+        setPlaying(false);
+        video.pause();
+      }
     };
 
     audio.addEventListener('timeupdate', updateTime);
-    audio.addEventListener('loadedmetadata', updateDuration);
+    audio.addEventListener('loadedmetadata', handleLoaded);
     audio.addEventListener('ended', handleEnded);
 
     return () => {
       audio.removeEventListener('timeupdate', updateTime);
-      audio.removeEventListener('loadedmetadata', updateDuration);
+      audio.removeEventListener('loadedmetadata', handleLoaded);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, [captions]);
+  }, [captions, chapters, segment, segmentIndex, segments.length, isGenerating]);
 
   const togglePlayPause = () => {
     const video = videoRef.current;
@@ -79,9 +135,9 @@ const VideoPlayerWithCaptions: React.FC<VideoPlayerWithCaptionsProps> = ({
       audio.pause();
     } else {
       video.play();
-      audio.play();
+      if (!isWaiting) audio.play();
     }
-    setIsPlaying(!isPlaying);
+    setPlaying(!isPlaying);
   };
 
   const toggleMute = () => {
@@ -102,6 +158,28 @@ const VideoPlayerWithCaptions: React.FC<VideoPlayerWithCaptionsProps> = ({
     }
   };
 
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    const audio = audioRef.current;
+    if (!audio || segments.length === 0) return;
+
+    let target = segments.findIndex(s => time < s.start + s.duration);
+    if (target === -1) target = segments.length - 1;
+    const offset = Math.max(0, time - segments[target].start);
+
+    setIsWaiting(false);
+    if (target === segmentIndex) {
+      audio.currentTime = offset;
+    } else {
+      pendingOffsetRef.current = offset;
+      setSegmentIndex(target);
+    }
+    if (video) video.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const currentChapter = chapters.find(chapter => chapter.id === currentChapterId);
+
   const formatTime = (time: number) => {
     if (isNaN(time)) return '0:00';
     const minutes = Math.floor(time / 60);
@@ -126,7 +204,16 @@ const VideoPlayerWithCaptions: React.FC<VideoPlayerWithCaptionsProps> = ({
           </video>
 
           {/* Audio Element */}
-          <audio ref={audioRef} src={audioUrl} />
+          <audio ref={audioRef} src={segment?.url} preload="auto" />
+
+          {/* Chapter Title */}
+          {currentChapter && (
+            <div className="absolute top-0 left-0 right-0 p-4">
+              <p className="text-white text-xs font-medium bg-black bg-opacity-60 rounded px-2 py-1 inline-block">
+                {currentChapter.title}
+              </p>
+            </div>
+          )}
 
           {/* Captions Overlay */}
           <div className="absolute bottom-0 left-0 right-0 p-4">
@@ -165,7 +252,9 @@ const VideoPlayerWithCaptions: React.FC<VideoPlayerWithCaptionsProps> = ({
               </div>
               <div className="flex justify-between text-xs text-muted-foreground">
                 <span>{formatTime(currentTime)}</span>
-                <span>{formatTime(duration)}</span>
+                <span>
+                  {isWaiting ? 'Generating... ' : ''}{formatTime(duration)}{isGenerating ? '+' : ''}
+                </span>
               </div>
             </div>
 
@@ -189,6 +278,26 @@ const VideoPlayerWithCaptions: React.FC<VideoPlayerWithCaptionsProps> = ({
               />
             </div>
 
+            {/* Chapters */}
+            {chapters.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                <p className="text-xs font-medium text-muted-foreground">Chapters</p>
+                {chapters.map((chapter) => (
+                  <button
+                    key={chapter.id}
+                    onClick={() => seekTo(chapter.start)}
+                    className={`w-full flex justify-between gap-2 text-left text-sm rounded px-2 py-1 hover:bg-secondary ${
+                      chapter.id === currentChapterId ? 'bg-secondary font-medium' : ''
+                    }`}
+                    style={{ paddingLeft: `${0.5 + (chapter.level - 1) * 0.75}rem` }}
+                  >
+                    <span className="truncate">{chapter.title}</span>
+                    <span className="text-xs text-muted-foreground">{formatTime(chapter.start)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Reset Button */}
             {onReset && (
               <Button onClick={onReset} variant="outline" className="w-full">
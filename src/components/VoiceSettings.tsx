@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ELEVENLABS_PROVIDER_ID } from '@/lib/elevenLabsProvider';
+import type { TTSVoice } from '@/lib/ttsProvider';
+import { TextToSpeechService } from '@/lib/ttsService';
+
+interface VoiceSettingsProps {
+  /** Provider used for the conversion */
+  providerId: string;
+  onProviderChange: (providerId: string) => void;
+  /** Voice of the provider, undefined for its default voice */
+  voiceId?: string;
+  onVoiceChange: (voiceId?: string) => void;
+  /** ElevenLabs API key entered by the user */
+  apiKey: string;
+  onApiKeyChange: (apiKey: string) => void;
+  /** Text that will be converted, for the cost estimate */
+  text: string;
+}
+
+/** Select items can't have an empty value, so the default voice gets its own */
+const DEFAULT_VOICE = 'default';
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({
+  providerId,
+  onProviderChange,
+  voiceId,
+  onVoiceChange,
+  apiKey,
+  onApiKeyChange,
+  text,
+}) => {
+  const ttsService = TextToSpeechService.getInstance();
+  const choices = ttsService.getProviderChoices();
+  // ElevenLabs is only registered once it has a key
+  const available = ttsService.hasProvider(providerId);
+  const [voices, setVoices] = useState<TTSVoice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVoices([]);
+    if (!available) return;
+
+    ttsService.getVoices(providerId)
+      .then((list) => {
+        if (!cancelled) setVoices(list);
+      })
+      .catch(error => console.error('Error loading voices:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [ttsService, providerId, available, apiKey]);
+
+  const estimate = useMemo(
+    () => (available ? ttsService.estimateCost(text, providerId) : null),
+    [ttsService, text, providerId, available]
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="tts-provider">Speech engine</Label>
+        <Select value={providerId} onValueChange={onProviderChange}>
+          <SelectTrigger id="tts-provider" className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {choices.map(choice => (
+              <SelectItem key={choice.id} value={choice.id}>{choice.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {providerId === ELEVENLABS_PROVIDER_ID && (
+        <div className="space-y-2">
+          <Label htmlFor="elevenlabs-api-key">ElevenLabs API key</Label>
+          <Input
+            id="elevenlabs-api-key"
+            type="password"
+            autoComplete="off"
+            value={apiKey}
+            onChange={(e) => onApiKeyChange(e.target.value)}
+            placeholder="Paste your API key"
+          />
+          <p className="text-xs text-muted-foreground">Saved in this browser only and sent to ElevenLabs alone.</p>
+        </div>
+      )}
+      {voices.length > 0 && (
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="tts-voice">Voice</Label>
+          <Select
+            value={voiceId && voices.some(voice => voice.id === voiceId) ? voiceId : DEFAULT_VOICE}
+            onValueChange={(value) => onVoiceChange(value === DEFAULT_VOICE ? undefined : value)}
+          >
+            <SelectTrigger id="tts-voice" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_VOICE}>Default voice</SelectItem>
+              {voices.map(voice => (
+                <SelectItem key={voice.id} value={voice.id}>
+                  {voice.name} <span className="text-muted-foreground">({voice.lang})</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {estimate && (
+        <p className="text-xs text-muted-foreground">
+          About {estimate.characters.toLocaleString()} characters
+          {estimate.amount > 0
+            ? `, estimated cost ${new Intl.NumberFormat(undefined, { style: 'currency', currency: estimate.currency }).format(estimate.amount)}`
+            : ', free with this engine'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VoiceSettings;
@@ -0,0 +1,194 @@
+import { digitsToWords } from './numberWords';
+import { loadSetting, saveSetting } from './projectStorage';
+
+/** How an acronym is read: letter by letter, as a word, or as its expansion */
+export type AcronymReading = 'spell' | 'word' | 'expand';
+
+export interface AcronymEntry {
+  /** The acronym or abbreviation as written, such as "NASA" or "e.g." */
+  term: string;
+  reading: AcronymReading;
+  /** Text read instead of the term, for "expand" */
+  expansion?: string;
+  /** Also an ordinary word ("WHO", "IT"), read as one inside all-caps text */
+  commonWord?: boolean;
+}
+
+const STORAGE_KEY = 'acronyms';
+
+const spell = (...terms: string[]): AcronymEntry[] => terms.map(term => ({ term, reading: 'spell' }));
+const word = (...terms: string[]): AcronymEntry[] => terms.map(term => ({ term, reading: 'word' }));
+const expand = (term: string, expansion: string): AcronymEntry => ({ term, reading: 'expand', expansion });
+const common = (entry: AcronymEntry): AcronymEntry => ({ ...entry, commonWord: true });
+
+export const BUILT_IN_ACRONYMS: AcronymEntry[] = [
+  ...spell(
+    'AI', 'API', 'ATM', 'BBC', 'BC', 'BCE', 'CD', 'CDC', 'CE', 'CEO', 'CFO', 'CIA', 'CPU', 'CSS', 'CTO', 'DNA',
+    'DVD', 'EU', 'FAQ', 'FBI', 'GDP', 'GPS', 'GPU', 'HIV', 'HR', 'HTML', 'HTTP', 'IBM', 'IP', 'IQ', 'MIT',
+    'NGO', 'NHS', 'NYC', 'OECD', 'PC', 'PDF', 'PR', 'QA', 'RNA', 'SQL', 'SUV', 'TV', 'UCLA', 'UK', 'UN', 'URL', 'USA', 'USB',
+    'VIP', 'XML'
+  ),
+  ...['AD', 'AM', 'ID', 'IT', 'OR', 'PM', 'US', 'WHO'].map(term => common({ term, reading: 'spell' })),
+  ...word('AIDS', 'COVID', 'FIFA', 'GIF', 'NASA', 'NASDAQ', 'NATO', 'OPEC', 'PIN', 'RAM', 'ROM', 'UNESCO', 'UNICEF'),
+  expand('IEEE', 'I triple E'),
+  expand('JPEG', 'jay peg'),
+  expand('OK', 'okay'),
+  expand('approx.', 'approximately'),
+  expand('cf.', 'compare'),
+  expand('e.g.', 'for example'),
+  expand('etc.', 'et cetera'),
+  expand('i.e.', 'that is'),
+  expand('vs.', 'versus'),
+  expand('Dr.', 'Doctor'),
+  expand('Jr.', 'Junior'),
+  expand('Mr.', 'Mister'),
+  expand('Mrs.', 'Missus'),
+  expand('Prof.', 'Professor'),
+];
+
+/** An acronym token: capitals and digits, optionally with a plural or possessive "s" */
+const TOKEN = String.raw`\p{Lu}[\p{Lu}\d]*(?:['’]?s|['’]S)?`;
+/** A run of all-caps tokens, such as a heading set in capitals */
+const CAPS_RUN_PATTERN = new RegExp(String.raw`(?<![\p{L}\d])${TOKEN}(?:[\s,:;&/–-]+${TOKEN})*(?![\p{L}\d])`, 'gu');
+const TOKEN_PATTERN = new RegExp(TOKEN, 'gu');
+/** Dotted acronyms such as "U.S." or "U.K." */
+const DOTTED_PATTERN = /(?<![\p{L}.])((?:\p{Lu}\.){2,})/gu;
+const CAPS_TERM_PATTERN = /^\p{Lu}[\p{Lu}\d]*$/u;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+
+interface Lexicon {
+  /** All-caps entries by term */
+  caps: Map<string, AcronymEntry>;
+  /** Other entries ("e.g.", "PhD"), including capitalized forms of lowercase ones */
+  literals: Map<string, AcronymEntry>;
+  literalPattern: RegExp | null;
+}
+
+let cachedLexicon: { entries: AcronymEntry[]; lexicon: Lexicon } | null = null;
+
+function buildLexicon(userEntries: AcronymEntry[]): Lexicon {
+  if (cachedLexicon?.entries === userEntries) return cachedLexicon.lexicon;
+
+  const caps = new Map<string, AcronymEntry>();
+  const literals = new Map<string, AcronymEntry>();
+  // User entries come last so they replace built-in ones
+  for (const entry of [...BUILT_IN_ACRONYMS, ...userEntries]) {
+    const term = entry.term.trim();
+    if (!term) continue;
+    if (CAPS_TERM_PATTERN.test(term)) {
+      caps.set(term, entry);
+    } else {
+      literals.set(term, entry);
+      if (/^\p{Ll}/u.test(term)) literals.set(term.charAt(0).toUpperCase() + term.slice(1), entry);
+    }
+  }
+
+  const terms = [...literals.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const literalPattern = terms.length > 0
+    ? new RegExp(`(?<![\\p{L}\\d.])(${terms.join('|')})(?![\\p{L}\\d])`, 'gu')
+    : null;
+
+  const lexicon = { caps, literals, literalPattern };
+  cachedLexicon = { entries: userEntries, lexicon };
+  return lexicon;
+}
+
+/**
+ * Spells a term out letter by letter, digits as words
+ * @param term Letters and digits, such as "MP3"
+ * @returns Space-separated letters, such as "M P three"
+ */
+export function spellOut(term: string): string {
+  return term
+    .replace(/[^\p{L}\d]/gu, '')
+    .toUpperCase()
+    .split('')
+    .map(ch => (/\d/.test(ch) ? digitsToWords(ch) : ch))
+    .join(' ');
+}
+
+function readEntry(entry: AcronymEntry, written: string, spell: (term: string) => string): string {
+  if (entry.reading === 'spell') return spell(written);
+  if (entry.reading === 'word') return CAPS_TERM_PATTERN.test(written) ? capitalize(written) : written;
+  const expansion = entry.expansion?.trim() || written;
+  // "E.g." at the start of a sentence reads "For example"
+  return /^\p{Lu}/u.test(written) && /^\p{Ll}/u.test(entry.term) ? expansion.charAt(0).toUpperCase() + expansion.slice(1) : expansion;
+}
+
+/** Acronyms that look like words ("NASA", "UNESCO") are read as words, the rest spelled */
+const looksPronounceable = (term: string) =>
+  term.length >= 4 && /[AEIOU]/.test(term) && !/\d/.test(term) && !/[^AEIOUY]{3,}/.test(term);
+
+/**
+ * Reads one all-caps token
+ * @param token Token such as "NASA", "PDFs" or "FBI's"
+ * @param inCapsText Whether the token is part of a run of all-caps words,
+ *   where unknown tokens are ordinary words set in capitals
+ */
+function readToken(token: string, inCapsText: boolean, lexicon: Lexicon, spell: (term: string) => string): string {
+  const [, core, suffix = ''] = /^(\p{Lu}[\p{Lu}\d]*?)((?:['’]?s|['’]S)?)$/u.exec(token) || [token, token];
+  const plural = suffix.toLowerCase();
+
+  if (core.length === 1) return inCapsText && core !== 'I' ? token.toLowerCase() : token;
+
+  const entry = lexicon.caps.get(core);
+  if (entry && !(inCapsText && entry.commonWord)) return readEntry(entry, core, spell) + plural;
+  if (inCapsText) return /[AEIOUY]/.test(core) ? capitalize(core) + plural : spell(core) + plural;
+  return (looksPronounceable(core) ? capitalize(core) : spell(core)) + plural;
+}
+
+/**
+ * Reads acronyms and abbreviations the way they are spoken: spelled ("F B
+ * I"), as words ("Nasa") or expanded ("for example"). All-caps headings
+ * ("THE END") are read as ordinary words rather than spelled.
+ * @param text Text to rewrite
+ * @param userEntries Entries added by the user, which take precedence over built-in ones
+ * @param spell Writes a spelled acronym out (default: spellOut)
+ * @returns Text with acronyms and abbreviations written as they are read
+ */
+export function readAcronyms(text: string, userEntries: AcronymEntry[] = [], spell: (term: string) => string = spellOut): string {
+  const lexicon = buildLexicon(userEntries);
+
+  const withLiterals = lexicon.literalPattern
+    ? text.replace(lexicon.literalPattern, (written, _term, offset: number, source: string) => {
+      const entry = lexicon.literals.get(written);
+      const read = readEntry(entry, written, spell);
+      // An abbreviation that ends a sentence keeps its period; titles ("Dr.") never end one
+      const endsSentence = written.endsWith('.') && /^\p{Ll}/u.test(read)
+        && /^(?:\s+\p{Lu}|\s*$)/u.test(source.slice(offset + written.length));
+      return endsSentence ? `${read}.` : read;
+    })
+    : text;
+
+  const withDotted = withLiterals.replace(DOTTED_PATTERN, (written, _dotted, offset: number, source: string) => {
+    const core = written.replace(/\./g, '');
+    const entry = lexicon.caps.get(core);
+    const read = entry ? readEntry(entry, core, spell) : spell(core);
+    return offset + written.length === source.length ? `${read}.` : read;
+  });
+
+  return withDotted.replace(CAPS_RUN_PATTERN, (run) => {
+    const tokens = run.match(TOKEN_PATTERN) || [];
+    const inCapsText = tokens.filter(token => token.length >= 2).length >= 2;
+    return run.replace(TOKEN_PATTERN, token => readToken(token, inCapsText, lexicon, spell));
+  });
+}
+
+/**
+ * Loads the acronym entries the user added
+ * @returns Saved entries, or none when storage is unavailable
+ */
+export function loadUserAcronyms(): AcronymEntry[] {
+  const saved = loadSetting<unknown>(STORAGE_KEY, []);
+  return Array.isArray(saved) ? saved.filter(entry => typeof entry?.term === 'string') : [];
+}
+
+/**
+ * Saves the acronym entries the user added
+ * @param entries Entries to keep
+ */
+export function saveUserAcronyms(entries: AcronymEntry[]): void {
+  saveSetting(STORAGE_KEY, entries);
+}
@@ -0,0 +1,93 @@
+import { encodeWav } from './wavEncoder';
+
+export interface AudioAssemblyOptions {
+  /** Sample rate of the assembled file (default: 22050) */
+  sampleRate?: number;
+  /** Silence inserted between consecutive chunks in milliseconds (default: 250) */
+  pauseMs?: number;
+  /** Silence appended after the last chunk, so separately assembled files keep the same spacing when played back to back (default: 0) */
+  trailingPauseMs?: number;
+}
+
+export interface ChunkTiming {
+  start: number;
+  end: number;
+}
+
+export interface AssembledAudio {
+  blob: Blob;
+  /** Total duration in seconds */
+  duration: number;
+  /** Where each input chunk sits in the assembled audio, in seconds */
+  chunkTimings: ChunkTiming[];
+}
+
+/**
+ * Decodes an encoded audio file (WAV, MP3, ...) into an AudioBuffer
+ * @param blob Encoded audio
+ * @returns Decoded audio at the file's own sample rate
+ */
+export async function decodeAudioChunk(blob: Blob): Promise<AudioBuffer> {
+  const data = await blob.arrayBuffer();
+  // The context only exists to decode; its length and rate are irrelevant
+  const context = new OfflineAudioContext(1, 1, 44100);
+  return await context.decodeAudioData(data);
+}
+
+/**
+ * Resamples audio to the target rate and mixes it down to mono
+ * @param buffer Decoded audio
+ * @param sampleRate Target sample rate
+ * @returns Mono samples at the target rate
+ */
+export async function resampleToMono(buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> {
+  const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+  const context = new OfflineAudioContext(1, length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+/**
+ * Joins separately synthesized chunks into one valid WAV file. Each chunk is
+ * decoded, resampled to a common rate and separated by a short pause, so
+ * the result has a single RIFF header with the correct data length.
+ * @param chunks Encoded audio for each text chunk, in reading order
+ * @param options Output rate and inter-chunk pause
+ * @returns The assembled WAV with per-chunk timings
+ */
+export async function assembleAudioChunks(chunks: Blob[], options: AudioAssemblyOptions = {}): Promise<AssembledAudio> {
+  const sampleRate = options.sampleRate || 22050;
+  const pauseSamples = Math.round(((options.pauseMs ?? 250) / 1000) * sampleRate);
+  const trailingSamples = Math.round(((options.trailingPauseMs ?? 0) / 1000) * sampleRate);
+
+  const decoded: Float32Array[] = [];
+  for (const chunk of chunks) {
+    const buffer = await decodeAudioChunk(chunk);
+    decoded.push(await resampleToMono(buffer, sampleRate));
+  }
+
+  const totalSamples = decoded.reduce((sum, samples) => sum + samples.length, 0)
+    + pauseSamples * Math.max(0, decoded.length - 1)
+    + trailingSamples;
+  const output = new Float32Array(totalSamples);
+  const chunkTimings: ChunkTiming[] = [];
+
+  let offset = 0;
+  decoded.forEach((samples, index) => {
+    if (index > 0) offset += pauseSamples;
+    output.set(samples, offset);
+    chunkTimings.push({ start: offset / sampleRate, end: (offset + samples.length) / sampleRate });
+    offset += samples.length;
+  });
+
+  return {
+    blob: new Blob([encodeWav([output], sampleRate)], { type: 'audio/wav' }),
+    duration: totalSamples / sampleRate,
+    chunkTimings,
+  };
+}
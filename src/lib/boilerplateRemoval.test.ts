@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { findBoilerplate, removeBoilerplate } from './boilerplateRemoval';
+import type { ExtractedDocument, ExtractedPage, TextLine } from './extractedDocument';
+import { createBlock } from './pageLayout';
+import { rebuildTable } from './tableDetection';
+
+const HEIGHT = 800;
+
+function line(text: string, y: number, x = 72): TextLine {
+  return { text, runs: [], x, y, width: text.length * 5, height: 10, fontSize: 10, fontName: 'Body' };
+}
+
+/** A page with body text and the given lines in the footer band */
+function page(pageNumber: number, footer: string[] = [], header: string[] = []): ExtractedPage {
+  const lines = [
+    ...header.map(text => line(text, HEIGHT - 30)),
+    line(`Body text of page ${pageNumber}.`, 400),
+    ...footer.map(text => line(text, 30)),
+  ];
+  const blocks = lines.map(text => createBlock([text]));
+  return { pageNumber, width: 600, height: HEIGHT, blocks, text: '' };
+}
+
+const removedTexts = (pages: ExtractedPage[]) => [...findBoilerplate(pages).lines].map(removed => removed.text);
+
+describe('findBoilerplate page numbers', () => {
+  it('removes numbers that count along with the pages', () => {
+    expect(removedTexts([page(1, ['7']), page(2, ['8']), page(3, ['9'])])).toEqual(['7', '8', '9']);
+  });
+
+  it('finds roman front matter and arabic body numbers', () => {
+    const pages = [page(1, ['iii']), page(2, ['iv']), page(3, ['1']), page(4, ['2'])];
+    expect(removedTexts(pages)).toEqual(['iii', 'iv', '1', '2']);
+  });
+
+  it.each([
+    ['a single page', [page(1, ['42'])]],
+    ['numbers out of sequence', [page(1, ['12']), page(2, ['3']), page(3, ['40'])]],
+  ])('keeps margin numbers on %s', (_, pages) => {
+    expect(removedTexts(pages)).toEqual([]);
+  });
+});
+
+describe('findBoilerplate running heads', () => {
+  it('removes heads that change with each chapter', () => {
+    const pages = [
+      page(1),
+      ...[2, 3, 4].map(pageNumber => page(pageNumber, [], ['Chapter One'])),
+      page(5),
+      ...[6, 7, 8, 9].map(pageNumber => page(pageNumber, [], ['Chapter Two'])),
+      page(10),
+    ];
+    expect(findBoilerplate(pages).removed.map(({ kind, text, pages: on }) => ({ kind, text, on }))).toEqual([
+      { kind: 'header', text: 'Chapter One', on: [2, 3, 4] },
+      { kind: 'header', text: 'Chapter Two', on: [6, 7, 8, 9] },
+    ]);
+  });
+
+  it('keeps margin text that only repeats on distant pages', () => {
+    const pages = Array.from({ length: 10 }, (_, index) => page(index + 1, index === 0 || index === 9 ? ['See the appendix'] : []));
+    expect(removedTexts(pages)).toEqual([]);
+  });
+});
+
+describe('removeBoilerplate', () => {
+  it('reads table cells again without the removed lines', () => {
+    const pages = [1, 2, 3].map((pageNumber) => {
+      const rows = [['Region', 'Sales'], ['North', '12'], ['South', '9'], ['Draft report', 'Acme']];
+      const lines = rows.flatMap(([label, value], index) => [line(label, 200 - index * 56, 72), line(value, 200 - index * 56, 300)]);
+      const table = rebuildTable(lines)!;
+      return { ...page(pageNumber), blocks: [table] };
+    });
+    const document = { pages, text: '' } as unknown as ExtractedDocument;
+
+    const [table] = removeBoilerplate(document).pages[0].blocks;
+    expect(table.table).toEqual({ header: ['Region', 'Sales'], rows: [['North', '12'], ['South', '9']] });
+    expect(table.text).not.toContain('Draft report');
+  });
+});
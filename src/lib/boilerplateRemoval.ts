@@ -0,0 +1,226 @@
+import {
+  joinBlockText,
+  joinPageText,
+  type BoilerplateKind,
+  type ExtractedDocument,
+  type ExtractedPage,
+  type RemovedText,
+  type TextBlock,
+  type TextLine,
+} from './extractedDocument';
+import { createBlock } from './pageLayout';
+import { rebuildTable } from './tableDetection';
+
+interface LineOccurrence {
+  page: ExtractedPage;
+  block: TextBlock;
+  line: TextLine;
+  zone: 'top' | 'bottom' | 'body';
+  /** Position relative to page height, 0 at the bottom */
+  relativeY: number;
+}
+
+/** Share of the page height treated as the header or footer band */
+const MARGIN_BAND = 0.08;
+/** Vertical tolerance, relative to page height, for "same position" */
+const POSITION_TOLERANCE = 0.02;
+/** Pages a running head may skip: chapter openers, and facing pages with a different head */
+const MAX_PAGE_GAP = 2;
+/** Pages a running head or footer repeats on before it is removed */
+const MIN_RUN_PAGES = 3;
+
+/** Roman numerals up to lxxxix, as used on front matter; words such as "mix" or "civil" don't fit the shape */
+const ROMAN_NUMERAL = String.raw`(?=[ivxl])(?:xl|l?x{0,3})(?:ix|iv|v?i{0,3})`;
+const PAGE_NUMBER_PATTERN = new RegExp(
+  String.raw`^(?:page\s*)?[-–—]?\s*(?:\d{1,4}|${ROMAN_NUMERAL})\s*[-–—]?(?:\s*(?:of|\/)\s*\d{1,4})?$`,
+  'i'
+);
+const ROMAN_VALUES: Record<string, number> = { i: 1, v: 5, x: 10, l: 50 };
+
+/**
+ * Normalizes a line so the same running head matches on every page, even
+ * when it contains the page number
+ * @param text Line text
+ * @returns Comparison key
+ */
+function lineKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reads the number a page-number line shows, the first one in "Page 3 of 10"
+ * @param text Line text
+ * @returns The value and whether it is a roman numeral, or null for other text
+ */
+function readPageNumber(text: string): { value: number; roman: boolean } | null {
+  const trimmed = text.trim().toLowerCase();
+  if (!PAGE_NUMBER_PATTERN.test(trimmed)) return null;
+  const digits = trimmed.match(/\d+/);
+  if (digits) return { value: Number(digits[0]), roman: false };
+
+  const numeral = trimmed.match(new RegExp(ROMAN_NUMERAL))?.[0] || '';
+  let value = 0;
+  for (let index = 0; index < numeral.length; index++) {
+    const digit = ROMAN_VALUES[numeral[index]];
+    value += digit < (ROMAN_VALUES[numeral[index + 1]] || 0) ? -digit : digit;
+  }
+  return { value, roman: true };
+}
+
+/**
+ * Keeps the margin numbers that count pages: a number is one when another
+ * page shows a number of the same style that is off from its page index by
+ * the same amount, so front matter in roman numerals and a body starting at
+ * 1 are both found, while a lone "42" in a margin is left alone
+ * @param occurrences Margin lines
+ * @returns The lines that are page numbers
+ */
+function findPageNumbers(occurrences: LineOccurrence[]): LineOccurrence[] {
+  const sequences = new Map<string, LineOccurrence[]>();
+  for (const occurrence of occurrences) {
+    const number = readPageNumber(occurrence.line.text);
+    if (!number) continue;
+    const key = `${number.roman ? 'roman' : 'arabic'}|${number.value - occurrence.page.pageNumber}`;
+    if (!sequences.has(key)) sequences.set(key, []);
+    sequences.get(key)!.push(occurrence);
+  }
+  return [...sequences.values()]
+    .filter(sequence => new Set(sequence.map(o => o.page.pageNumber)).size >= 2)
+    .flat();
+}
+
+/**
+ * Keeps the occurrences on runs of nearby pages. Running heads that change
+ * with each chapter only cover that chapter, so they are counted per run
+ * rather than against the whole document.
+ * @param occurrences Occurrences of one line
+ * @param minPages Pages a run must cover
+ * @returns The occurrences on runs long enough
+ */
+function keepRepeatedRuns(occurrences: LineOccurrence[], minPages: number): LineOccurrence[] {
+  const pageNumbers = [...new Set(occurrences.map(o => o.page.pageNumber))].sort((a, b) => a - b);
+  const kept = new Set<number>();
+  let run: number[] = [];
+  const flush = () => {
+    if (run.length >= minPages) run.forEach(pageNumber => kept.add(pageNumber));
+  };
+
+  for (const pageNumber of pageNumbers) {
+    if (run.length > 0 && pageNumber - run[run.length - 1] > MAX_PAGE_GAP) {
+      flush();
+      run = [];
+    }
+    run.push(pageNumber);
+  }
+  flush();
+  return occurrences.filter(o => kept.has(o.page.pageNumber));
+}
+
+function collectOccurrences(pages: ExtractedPage[]): LineOccurrence[] {
+  const occurrences: LineOccurrence[] = [];
+  for (const page of pages) {
+    for (const block of page.blocks) {
+      for (const line of block.lines) {
+        const relativeY = page.height > 0 ? line.y / page.height : 0.5;
+        const zone = relativeY >= 1 - MARGIN_BAND ? 'top' : relativeY <= MARGIN_BAND ? 'bottom' : 'body';
+        occurrences.push({ page, block, line, zone, relativeY });
+      }
+    }
+  }
+  return occurrences;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Finds running heads, footers, page numbers and watermarks by comparing
+ * line text and positions across pages
+ * @param pages Extracted pages
+ * @returns The lines to remove, with a report entry for each kind of text
+ */
+export function findBoilerplate(pages: ExtractedPage[]): { lines: Set<TextLine>; removed: RemovedText[] } {
+  const lines = new Set<TextLine>();
+  const removed: RemovedText[] = [];
+  const occurrences = collectOccurrences(pages);
+
+  const record = (kind: BoilerplateKind, matches: LineOccurrence[]) => {
+    matches.forEach(match => lines.add(match.line));
+    removed.push({
+      kind,
+      text: matches[0].line.text,
+      pages: [...new Set(matches.map(match => match.page.pageNumber))].sort((a, b) => a - b),
+    });
+  };
+
+  // Page numbers: a bare number (or "Page 3 of 10") in the margin bands that counts along with the pages
+  const pageNumbers = findPageNumbers(occurrences.filter(o => o.zone !== 'body'));
+  if (pageNumbers.length > 0) record('page-number', pageNumbers);
+
+  // Repeated text: running heads and footers in the bands, watermarks anywhere
+  const bodySize = median(occurrences.map(o => o.line.fontSize));
+  const minPages = pages.length <= MIN_RUN_PAGES ? 2 : MIN_RUN_PAGES;
+  const groups = new Map<string, LineOccurrence[]>();
+  for (const occurrence of occurrences) {
+    // Bare numbers out of sequence would all read "#" here; only findPageNumbers decides on them
+    if (lines.has(occurrence.line) || (occurrence.zone !== 'body' && readPageNumber(occurrence.line.text))) continue;
+    // Watermarks repeat verbatim; only margin text may differ by page number
+    const text = occurrence.zone === 'body' ? occurrence.line.text.toLowerCase().trim() : lineKey(occurrence.line.text);
+    const key = `${occurrence.zone}|${text}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(occurrence);
+  }
+
+  groups.forEach((group) => {
+    const typicalY = median(group.map(o => o.relativeY));
+    const aligned = group.filter(o => Math.abs(o.relativeY - typicalY) <= POSITION_TOLERANCE);
+    const zone = group[0].zone;
+
+    if (zone === 'body') {
+      // Watermarks are large, stand alone and sit on at least half of the pages
+      const standalone = aligned.filter(o => o.block.lines.length === 1 && o.line.fontSize >= bodySize * 1.5);
+      const standalonePages = new Set(standalone.map(o => o.page.pageNumber)).size;
+      if (pages.length >= 2 && standalonePages >= Math.max(2, Math.ceil(pages.length * 0.5))) {
+        record('watermark', standalone);
+      }
+    } else {
+      const repeated = keepRepeatedRuns(aligned, minPages);
+      if (repeated.length > 0) record(zone === 'top' ? 'header' : 'footer', repeated);
+    }
+  });
+
+  return { lines, removed };
+}
+
+/**
+ * Drops running heads, footers, page numbers and watermarks from a document
+ * @param document The extracted document
+ * @returns A copy without the repeated text, reporting what was removed in removedText
+ */
+export function removeBoilerplate(document: ExtractedDocument): ExtractedDocument {
+  const { lines, removed } = findBoilerplate(document.pages);
+  if (lines.size === 0) return { ...document, removedText: removed };
+
+  const pages = document.pages.map((page) => {
+    const blocks = page.blocks
+      .map((block) => {
+        const kept = block.lines.filter(line => !lines.has(line));
+        if (kept.length === block.lines.length) return block;
+        if (kept.length === 0) return null;
+        if (block.table) {
+          // Rows and cells are read again, so a dropped line leaves no stale cell behind
+          const table = rebuildTable(kept);
+          return table ? { ...block, ...table } : { ...block, ...createBlock(kept), table: undefined };
+        }
+        // Only the lines, text and bounds change; figure and other fields stay
+        return { ...block, ...createBlock(kept), kind: block.kind };
+      })
+      .filter((block): block is TextBlock => block !== null);
+    return { ...page, blocks, text: joinBlockText(blocks) };
+  });
+
+  return { ...document, pages, text: joinPageText(pages), removedText: removed };
+}
@@ -0,0 +1,107 @@
+import type { TTSCostEstimate, TTSOptions, TTSProvider, TTSProviderCapabilities, TTSVoice } from './ttsProvider';
+
+/**
+ * Lists the browser's speechSynthesis voices. The browser gives no way to
+ * capture what speechSynthesis speaks, so synthesize only returns silence
+ * of the estimated length; use it as a timing preview, not for real audio.
+ */
+export class BrowserSpeechProvider implements TTSProvider {
+  public readonly id = 'browser';
+  public readonly name = 'Browser speech (preview only)';
+  public readonly capabilities: TTSProviderCapabilities = {
+    requiresApiKey: false,
+    requiresNetwork: false,
+    maxChunkLength: 300,
+    outputMimeType: 'audio/wav',
+    supportsRate: true,
+    supportsPitch: true,
+    ssml: 'none',
+  };
+
+  private voices: SpeechSynthesisVoice[] = [];
+  private isVoicesLoaded = false;
+
+  private async loadVoices(): Promise<void> {
+    if (typeof speechSynthesis === 'undefined') {
+      this.isVoicesLoaded = true;
+      return;
+    }
+
+    return new Promise((resolve) => {
+      const loadVoicesHandler = () => {
+        this.voices = speechSynthesis.getVoices();
+        this.isVoicesLoaded = true;
+        resolve();
+      };
+
+      // Check if voices are already loaded
+      if (speechSynthesis.getVoices().length > 0) {
+        loadVoicesHandler();
+      } else {
+        // Wait for voices to be loaded
+        speechSynthesis.onvoiceschanged = loadVoicesHandler;
+        // Fallback timeout
+        setTimeout(loadVoicesHandler, 1000);
+      }
+    });
+  }
+
+  public async listVoices(): Promise<TTSVoice[]> {
+    if (!this.isVoicesLoaded) {
+      await this.loadVoices();
+    }
+    return this.voices.map(voice => ({
+      id: voice.voiceURI,
+      name: voice.name,
+      lang: voice.lang,
+    }));
+  }
+
+  public estimateCost(text: string): TTSCostEstimate {
+    return { characters: text.length, amount: 0, currency: 'USD' };
+  }
+
+  public async synthesize(text: string, options: TTSOptions): Promise<Blob> {
+    const rate = options.rate || 0.9;
+    const duration = this.estimateChunkDuration(text) / rate;
+    return new Blob([this.createSilentWav(duration)], { type: 'audio/wav' });
+  }
+
+  private estimateChunkDuration(text: string): number {
+    // Rough estimation: average speaking rate is 150-160 WPM
+    const words = text.split(' ').length;
+    const wordsPerMinute = 150;
+    return Math.max((words / wordsPerMinute) * 60, 1); // Minimum 1 second
+  }
+
+  private createSilentWav(duration: number): ArrayBuffer {
+    const sampleRate = 44100;
+    const samples = Math.round(duration * sampleRate);
+    const buffer = new ArrayBuffer(44 + samples * 2); // WAV header + 16-bit samples
+    const view = new DataView(buffer);
+
+    // WAV header
+    const writeString = (offset: number, string: string) => {
+      for (let i = 0; i < string.length; i++) {
+        view.setUint8(offset + i, string.charCodeAt(i));
+      }
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, 1, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, samples * 2, true);
+
+    // A fresh ArrayBuffer is zero-filled, which is already silence
+    return buffer;
+  }
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { preprocessTextForTTS } from './captionGenerator';
+
+describe('preprocessTextForTTS', () => {
+  it.each([
+    ['It ended here.It was fine.', 'It ended here. It was fine.'],
+    ['We use ASP.NET daily.', 'We use A S P. N E T daily.'],
+    ['Mail John.Smith@example.com today.', 'Mail John dot Smith at example dot com today.'],
+    ['See example.com for more.', 'See link to example dot com for more.'],
+  ])('reads %j as %j', (text, expected) => {
+    expect(preprocessTextForTTS(text)).toBe(expected);
+  });
+});
@@ -1,7 +1,17 @@
+import { readAcronyms, spellOut, type AcronymEntry } from './acronymLexicon';
+import type { ChapterMark } from './chapterDetection';
+import { DEFAULT_LINK_MODE, readLinks, type LinkMode } from './linkReading';
+import { applyPronunciations, escapeXml, type PronunciationEntry } from './pronunciationLexicon';
+import { DEFAULT_NORMALIZATION_LOCALE, normalizeText } from './textNormalizer';
+import { createPlaceholders } from './textPlaceholders';
+import type { SsmlSupport } from './ttsProvider';
+
 export interface CaptionSegment {
     start: number;
     end: number;
     text: string;
+    /** Chapter the caption belongs to, when chapters were detected */
+    chapterId?: string;
   }
   
   /**
@@ -47,6 +57,35 @@ export interface CaptionSegment {
     return segments;
   }
   
+  /**
+   * Generates captions for separately timed sections of the audio, so caption
+   * timing resets at every chapter instead of drifting across the whole track
+   * @param sections Section texts with their start and end times in seconds
+   * @param wordsPerSegment Number of words per caption segment (default: 8)
+   * @param chapters Chapter marks used to tag each caption with its chapter
+   * @returns Array of caption segments with timing
+   */
+  export function generateSectionCaptions(
+    sections: { text: string; start: number; end: number }[],
+    wordsPerSegment: number = 8,
+    chapters: ChapterMark[] = []
+  ): CaptionSegment[] {
+    const captions = sections
+      .filter(section => section.end > section.start)
+      .flatMap(section =>
+        generateCaptions(section.text, section.end - section.start, wordsPerSegment).map(segment => ({
+          ...segment,
+          start: segment.start + section.start,
+          end: segment.end + section.start,
+        }))
+      );
+
+    return captions.map(caption => {
+      const chapter = [...chapters].reverse().find(mark => mark.start <= caption.start + 0.001);
+      return chapter ? { ...caption, chapterId: chapter.id } : caption;
+    });
+  }
+
   /**
    * Estimates audio duration based on text length and reading speed
    * @param text The text to analyze
@@ -59,59 +98,50 @@ export interface CaptionSegment {
     return Math.max(minutes * 60, 10); // Minimum 10 seconds
   }
   
+  export interface TextPreprocessingOptions {
+    /** Language tag whose rules are used to read numbers, dates and units (default: en-US) */
+    locale?: string;
+    /** Acronyms added by the user, read before the built-in ones */
+    acronyms?: AcronymEntry[];
+    /** Pronunciations of names and terms, applied before any other rule but link reading */
+    pronunciations?: PronunciationEntry[];
+    /** How web addresses are read (default: domain only) */
+    links?: LinkMode;
+  }
+
   /**
    * Preprocesses PDF text for better TTS pronunciation
    * @param text Raw text from PDF
+   * @param options Locale, acronym, pronunciation and link settings
+   * @param ssml Markup the engine takes: full SSML gets XML-escaped text with
+   *   spelled acronyms and lexicon terms marked up; inline tags get lexicon
+   *   phonemes only
    * @returns Cleaned text optimized for speech synthesis
    */
-  export function preprocessTextForTTS(text: string): string {
-    return text
-      // Remove excessive whitespace
-      .replace(/\s+/g, ' ')
-      // Add pauses for periods
-      .replace(/\./g, '. ')
-      // Add pauses for commas
-      .replace(/,/g, ', ')
-      // Handle abbreviations (add periods if missing)
-      .replace(/\b([A-Z]{2,})\b/g, (match) => {
-        return match.split('').join('.') + '.';
-      })
-      // Remove page numbers and headers/footers (basic patterns)
-      .replace(/^Page \d+.*$/gm, '')
-      .replace(/^\d+\s*$/gm, '')
+  export function preprocessTextForTTS(text: string, options: TextPreprocessingOptions = {}, ssml: SsmlSupport = 'none'): string {
+    const placeholders = createPlaceholders();
+    const full = ssml === 'full';
+    const escape = (plain: string) => (full ? escapeXml(plain) : plain);
+    // Engines reading tags inline in plain text would take a stray angle bracket for markup
+    const unbracketed = ssml === 'breaks-and-phonemes' ? text.replace(/[<>]/g, ' ') : text;
+    // Remove excessive whitespace
+    const collapsed = placeholders.sanitize(unbracketed.replace(/\s+/g, ' ').trim());
+    const hold = (reading: string) => placeholders.hold(escape(reading));
+    // Sentences run together at a full stop ("here.It") are parted before
+    // links are looked for, leaving capitalized email names alone
+    const parted = collapsed.replace(/([.!?])(?=\p{Lu}\p{Ll}+(?![\p{L}\d.+_-]*@))/gu, '$1 ');
+    const linked = readLinks(parted, options.links || DEFAULT_LINK_MODE, hold);
+    const respelled = applyPronunciations(linked, options.pronunciations || [], placeholders, ssml);
+    const normalized = normalizeText(respelled, options.locale || DEFAULT_NORMALIZATION_LOCALE);
+    const spell = full
+      ? (term: string) => placeholders.hold(`<say-as interpret-as="characters">${escapeXml(term)}</say-as>`)
+      : spellOut;
+
+    const cleaned = readAcronyms(normalized, options.acronyms, spell)
+      // Add pauses after punctuation that runs into the next word
+      .replace(/([.,;:!?])(?=[\p{L}\uE000-\uF8FF])/gu, '$1 ')
       // Clean up any double spaces
       .replace(/\s+/g, ' ')
       .trim();
+    return placeholders.restore(escape(cleaned));
   }
-  
-  /**
-   * Splits long text into manageable chunks for TTS processing
-   * @param text The text to split
-   * @param maxChunkLength Maximum characters per chunk (default: 500)
-   * @returns Array of text chunks
-   */
-  export function splitTextIntoChunks(text: string, maxChunkLength: number = 500): string[] {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const chunks: string[] = [];
-    let currentChunk = '';
-  
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      if (trimmedSentence.length === 0) continue;
-  
-      // If adding this sentence would exceed the limit, start a new chunk
-      if (currentChunk.length + trimmedSentence.length > maxChunkLength && currentChunk.length > 0) {
-        chunks.push(currentChunk.trim());
-        currentChunk = trimmedSentence + '.';
-      } else {
-        currentChunk += (currentChunk.length > 0 ? ' ' : '') + trimmedSentence + '.';
-      }
-    }
-  
-    // Add the last chunk if it has content
-    if (currentChunk.trim().length > 0) {
-      chunks.push(currentChunk.trim());
-    }
-  
-    return chunks.length > 0 ? chunks : [text]; // Fallback to original text if no chunks created
-  }
\ No newline at end of file
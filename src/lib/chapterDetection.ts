@@ -0,0 +1,195 @@
+import { locateBlocks, type BlockLocation, type ExtractedDocument, type OutlineEntry, type TextBlock } from './extractedDocument';
+
+export interface Chapter {
+  id: string;
+  title: string;
+  /** Depth in the chapter tree, 1 for top-level chapters */
+  level: number;
+  pageNumber: number;
+  /** Offset of the chapter start in ExtractedDocument.text */
+  startOffset: number;
+  children: Chapter[];
+}
+
+/** Chapter positioned on the audio timeline */
+export interface ChapterMark {
+  id: string;
+  title: string;
+  level: number;
+  /** Start time in seconds */
+  start: number;
+}
+
+const MAX_HEADING_LEVEL = 4;
+
+const normalizeTitle = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Finds the font size most of the document's text is set in
+ * @param document The extracted document
+ * @returns Body font size rounded to half a point, 0 for a document without text
+ */
+export function bodyFontSize(document: ExtractedDocument): number {
+  const weights = new Map<number, number>();
+  for (const page of document.pages) {
+    for (const block of page.blocks) {
+      for (const line of block.lines) {
+        const size = Math.round(line.fontSize * 2) / 2;
+        weights.set(size, (weights.get(size) || 0) + line.text.length);
+      }
+    }
+  }
+  let body = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      body = size;
+      bestWeight = weight;
+    }
+  });
+  return body;
+}
+
+function blockFontSize(block: TextBlock): number {
+  return Math.max(...block.lines.map(line => line.fontSize));
+}
+
+/**
+ * Marks heading blocks from font size and weight: short blocks set clearly
+ * larger than body text, or short bold lines at body size. Distinct sizes
+ * become heading levels, largest first.
+ * @param document The extracted document
+ * @returns A copy with heading blocks marked
+ */
+export function markHeadings(document: ExtractedDocument): ExtractedDocument {
+  const bodySize = bodyFontSize(document);
+  if (bodySize === 0) return document;
+
+  const isBold = (block: TextBlock) => block.lines.every(line => document.fonts[line.fontName]?.bold);
+  const looksLikeHeading = (block: TextBlock) =>
+    block.lines.length <= 3 && block.text.length <= 150 && /[A-Za-z]{2}/.test(block.text) && !/^[a-z]/.test(block.text);
+
+  const sizeHeadings = new Set<TextBlock>();
+  const boldHeadings = new Set<TextBlock>();
+  for (const page of document.pages) {
+    for (const block of page.blocks) {
+      if (block.kind !== 'paragraph' || !looksLikeHeading(block)) continue;
+      const ratio = blockFontSize(block) / bodySize;
+      if (ratio >= 1.15) {
+        sizeHeadings.add(block);
+      } else if (ratio >= 0.95 && isBold(block) && block.lines.length <= 2 && block.text.length <= 100 && !/[.,;]$/.test(block.text)) {
+        boldHeadings.add(block);
+      }
+    }
+  }
+
+  const sizes = [...new Set([...sizeHeadings].map(block => Math.round(blockFontSize(block) * 2) / 2))].sort((a, b) => b - a);
+  const levelOf = (block: TextBlock) => {
+    if (boldHeadings.has(block)) return Math.min(sizes.length + 1, MAX_HEADING_LEVEL);
+    return Math.min(sizes.indexOf(Math.round(blockFontSize(block) * 2) / 2) + 1, MAX_HEADING_LEVEL);
+  };
+
+  const pages = document.pages.map(page => ({
+    ...page,
+    blocks: page.blocks.map(block =>
+      sizeHeadings.has(block) || boldHeadings.has(block)
+        ? { ...block, kind: 'heading' as const, headingLevel: levelOf(block) }
+        : block
+    ),
+  }));
+
+  return { ...document, pages };
+}
+
+function buildTree(flat: Omit<Chapter, 'children'>[]): Chapter[] {
+  const roots: Chapter[] = [];
+  const stack: Chapter[] = [];
+
+  for (const entry of flat) {
+    const chapter: Chapter = { ...entry, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= chapter.level) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].children.push(chapter);
+    else roots.push(chapter);
+    stack.push(chapter);
+  }
+
+  return roots;
+}
+
+/**
+ * Finds the block a bookmark points at: the heading that matches its title
+ * on its page, or else the first block from that page on
+ * @param entry Outline entry
+ * @param locations Blocks of the document with their text offsets
+ * @returns The block location, or undefined when the entry has no page or nothing follows it
+ */
+export function locateOutlineEntry(entry: OutlineEntry, locations: BlockLocation[]): BlockLocation | undefined {
+  if (entry.pageNumber === null) return undefined;
+  const onPage = locations.filter(location => location.page.pageNumber >= entry.pageNumber!);
+  const title = normalizeTitle(entry.title);
+  const firstPage = onPage[0]?.page.pageNumber;
+  return onPage.find(location =>
+    location.page.pageNumber === firstPage && title.length > 0 && normalizeTitle(location.block.text).startsWith(title)
+  ) || onPage[0];
+}
+
+function chaptersFromOutline(outline: OutlineEntry[], locations: BlockLocation[]): Chapter[] {
+  const flat: Omit<Chapter, 'children'>[] = [];
+
+  const visit = (entries: OutlineEntry[], level: number) => {
+    for (const entry of entries) {
+      const match = locateOutlineEntry(entry, locations);
+      if (match) {
+        flat.push({
+          id: `chapter-${flat.length + 1}`,
+          title: entry.title.trim(),
+          level,
+          pageNumber: match.page.pageNumber,
+          startOffset: match.start,
+        });
+      }
+      visit(entry.children, level + 1);
+    }
+  };
+
+  visit(outline, 1);
+  flat.sort((a, b) => a.startOffset - b.startOffset);
+  return buildTree(flat);
+}
+
+function chaptersFromHeadings(locations: BlockLocation[]): Chapter[] {
+  const flat = locations
+    .filter(location => location.block.kind === 'heading')
+    .map((location, index) => ({
+      id: `chapter-${index + 1}`,
+      title: location.block.text,
+      level: location.block.headingLevel || 1,
+      pageNumber: location.page.pageNumber,
+      startOffset: location.start,
+    }));
+  return buildTree(flat);
+}
+
+/**
+ * Splits a document into a chapter tree, from the PDF outline when it has
+ * one and from detected headings otherwise
+ * @param document The extracted document, with headings marked
+ * @returns Top-level chapters with their sub-sections
+ */
+export function detectChapters(document: ExtractedDocument): Chapter[] {
+  const locations = locateBlocks(document.pages);
+  if (document.outline.length > 0) {
+    const chapters = chaptersFromOutline(document.outline, locations);
+    if (chapters.length > 0) return chapters;
+  }
+  return chaptersFromHeadings(locations);
+}
+
+/**
+ * Lists a chapter tree depth-first, in reading order
+ * @param chapters Chapter tree
+ * @returns Every chapter and sub-section
+ */
+export function flattenChapters(chapters: Chapter[]): Chapter[] {
+  return chapters.flatMap(chapter => [chapter, ...flattenChapters(chapter.children)]);
+}
@@ -0,0 +1,77 @@
+import { prepareSpeechChunks, type ChunkPreparationRequest } from './speechChunks';
+
+export interface ChunkingWorkerRequest {
+  id: number;
+  request: ChunkPreparationRequest;
+}
+
+export type ChunkingWorkerMessage =
+  | { id: number; chunks: string[] }
+  | { id: number; error: string };
+
+/** Prepares chunks in a worker for as long as it is kept */
+export interface ChunkPreparer {
+  prepare(request: ChunkPreparationRequest): Promise<string[]>;
+  /** Terminates the worker and rejects pending requests */
+  dispose(): void;
+}
+
+function startWorker(): Worker | null {
+  try {
+    return new Worker(new URL('./chunkingWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    // No Worker support, or a content security policy forbids it
+    console.warn('Chunking worker unavailable, preparing chunks on the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Starts a worker that segments, preprocesses and chunks texts for
+ * synthesis. Without Worker support the chunks are prepared on the main
+ * thread instead.
+ * @returns A preparer to send requests to, disposed once synthesis is over
+ */
+export function startChunkPreparer(): ChunkPreparer {
+  const worker = typeof Worker === 'undefined' ? null : startWorker();
+  if (!worker) {
+    return {
+      prepare: async request => prepareSpeechChunks(request),
+      dispose: () => {},
+    };
+  }
+
+  const pending = new Map<number, { resolve: (chunks: string[]) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  const failAll = (error: Error) => {
+    for (const { reject } of pending.values()) reject(error);
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<ChunkingWorkerMessage>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if ('chunks' in message) request.resolve(message.chunks);
+    else request.reject(new Error(message.error));
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    console.error('Chunking worker failed:', event.message);
+    failAll(new Error('Failed to prepare the text for speech.'));
+  };
+
+  return {
+    prepare: request => new Promise<string[]>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ id, request } satisfies ChunkingWorkerRequest);
+    }),
+    dispose: () => {
+      worker.terminate();
+      failAll(new DOMException('Chunk preparation was stopped', 'AbortError'));
+    },
+  };
+}
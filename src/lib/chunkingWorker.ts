@@ -0,0 +1,18 @@
+/**
+ * Web Worker that segments, preprocesses and chunks text for synthesis off
+ * the main thread, so long sections do not freeze playback. Started by
+ * chunkingClient.
+ */
+import type { ChunkingWorkerMessage, ChunkingWorkerRequest } from './chunkingClient';
+import { prepareSpeechChunks } from './speechChunks';
+
+const post = (message: ChunkingWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ChunkingWorkerRequest>) => {
+  const { id, request } = event.data;
+  try {
+    post({ id, chunks: prepareSpeechChunks(request) });
+  } catch (error) {
+    post({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
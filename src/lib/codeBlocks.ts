@@ -0,0 +1,91 @@
+import { joinBlockText, joinPageText, type ExtractedDocument, type FontInfo, type TextBlock } from './extractedDocument';
+import { createBlock } from './pageLayout';
+
+/** How code blocks are narrated: left out, announced with their length, or read line by line */
+export type CodeMode = 'skip' | 'summarize' | 'verbatim';
+
+export const DEFAULT_CODE_MODE: CodeMode = 'summarize';
+
+/** Share of a block's characters that must be set in a monospace font */
+const MIN_MONOSPACE_SHARE = 0.8;
+
+const SENTENCE_END_PATTERN = /[.!?:;]$/;
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function isCodeBlock(block: TextBlock, fonts: Record<string, FontInfo>): boolean {
+  if (block.kind !== 'paragraph') return false;
+  let monospace = 0;
+  let total = 0;
+  for (const run of block.lines.flatMap(line => line.runs)) {
+    const length = run.text.replace(/\s+/g, '').length;
+    total += length;
+    if (fonts[run.fontName]?.monospace) monospace += length;
+  }
+  return total > 0 && monospace / total >= MIN_MONOSPACE_SHARE;
+}
+
+/**
+ * Writes a code block out for listening
+ * @param block The code block
+ * @param mode Summary, every line, or nothing
+ * @returns Narration text, empty when code is skipped
+ */
+export function narrateCode(block: TextBlock, mode: CodeMode): string {
+  if (mode === 'skip') return '';
+  const lines = block.lines.map(line => line.text.trim()).filter(text => text.length > 0);
+  if (mode === 'summarize') return `Code sample, ${plural(lines.length, 'line')}.`;
+
+  // Every line ends in a stop, so each one is read with a pause after it
+  const read = lines.map(line => (SENTENCE_END_PATTERN.test(line) ? line : `${line}.`));
+  return ['Code sample.', ...read, 'End of code.'].join(' ');
+}
+
+/**
+ * Finds the code blocks of a page: paragraphs set in a monospace font.
+ * Indented lines split code into several paragraphs, so neighbouring code
+ * blocks are joined back into one.
+ * @param blocks Page blocks in reading order
+ * @param fonts Fonts of the document
+ * @returns The blocks with code marked and summarized
+ */
+export function markCode(blocks: TextBlock[], fonts: Record<string, FontInfo>): TextBlock[] {
+  const result: TextBlock[] = [];
+  for (const block of blocks) {
+    if (!isCodeBlock(block, fonts)) {
+      result.push(block);
+      continue;
+    }
+    const previous = result[result.length - 1];
+    const lines = previous?.kind === 'code' ? [...previous.lines, ...block.lines] : block.lines;
+    const code: TextBlock = { ...createBlock(lines), kind: 'code' };
+    code.text = narrateCode(code, DEFAULT_CODE_MODE);
+    if (previous?.kind === 'code') result[result.length - 1] = code;
+    else result.push(code);
+  }
+  return result;
+}
+
+/**
+ * Narrates every code block in a document the chosen way
+ * @param document The extracted document
+ * @param mode Code narration mode
+ * @returns A copy with code block text rewritten, or without code when skipped
+ */
+export function applyCodeMode(document: ExtractedDocument, mode: CodeMode): ExtractedDocument {
+  const pages = document.pages.map((page) => {
+    const blocks = page.blocks
+      .map(block => (block.kind === 'code' ? { ...block, text: narrateCode(block, mode) } : block))
+      .filter(block => block.kind !== 'code' || block.text.length > 0);
+    return { ...page, blocks, text: joinBlockText(blocks) };
+  });
+  return { ...document, pages, text: joinPageText(pages) };
+}
+
+/**
+ * Counts the code blocks found in a document
+ * @param document The extracted document
+ * @returns Number of code blocks
+ */
+export function countCodeBlocks(document: ExtractedDocument): number {
+  return document.pages.reduce((count, page) => count + page.blocks.filter(block => block.kind === 'code').length, 0);
+}
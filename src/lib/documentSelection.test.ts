@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { detectChapters } from './chapterDetection';
+import { applySelection, formatPageRanges, parsePageRanges } from './documentSelection';
+import { joinBlockText, joinPageText, type ExtractedDocument, type ExtractedPage, type OutlineEntry } from './extractedDocument';
+import { createBlock } from './pageLayout';
+
+function page(pageNumber: number, texts: string[]): ExtractedPage {
+  const blocks = texts.map(text => createBlock([{ text, runs: [], x: 72, y: 400, width: 200, height: 10, fontSize: 10, fontName: 'Body' }]));
+  return { pageNumber, width: 600, height: 800, blocks, text: joinBlockText(blocks) };
+}
+
+const entry = (title: string, pageNumber: number, children: OutlineEntry[] = []): OutlineEntry => ({ title, pageNumber, children });
+
+describe('parsePageRanges', () => {
+  it.each([
+    ['1-3, 7', [1, 2, 3, 7]],
+    ['5, 2-3, 3', [2, 3, 5]],
+  ])('reads "%s"', (input, pages) => {
+    expect(parsePageRanges(input, 10)).toEqual(pages);
+  });
+
+  it.each(['', 'two', '0-3', '4-2', '9-11'])('rejects "%s"', (input) => {
+    expect(() => parsePageRanges(input, 10)).toThrow();
+  });
+
+  it('formats pages back into ranges', () => {
+    expect(formatPageRanges([7, 1, 2, 3])).toBe('1-3, 7');
+  });
+});
+
+describe('applySelection', () => {
+  it('drops the bookmark of an excluded chapter, not others with the same title', () => {
+    const pages = [
+      page(1, ['Part One', 'Opening text.']),
+      page(2, ['Summary', 'First summary.']),
+      page(3, ['Part Two', 'More text.']),
+      page(4, ['Summary', 'Second summary.']),
+    ];
+    const outline = [
+      entry('Part One', 1, [entry('Summary', 2)]),
+      entry('Part Two', 3, [entry('Summary', 4)]),
+    ];
+    const document = { pages, outline, text: joinPageText(pages) } as unknown as ExtractedDocument;
+    const chapters = detectChapters(document);
+    const firstSummary = chapters[0].children[0];
+
+    const selected = applySelection(document, chapters, { pages: [1, 2, 3, 4], excludedChapterIds: [firstSummary.id] });
+    expect(selected.outline).toEqual([entry('Part One', 1), entry('Part Two', 3, [entry('Summary', 4)])]);
+    expect(selected.text).not.toContain('First summary.');
+    expect(selected.text).toContain('Second summary.');
+  });
+});
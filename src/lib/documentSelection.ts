@@ -0,0 +1,147 @@
+import { flattenChapters, locateOutlineEntry, type Chapter } from './chapterDetection';
+import {
+  joinBlockText,
+  joinPageText,
+  locateBlocks,
+  type ExtractedDocument,
+  type OutlineEntry,
+  type TextBlock,
+} from './extractedDocument';
+
+export interface DocumentSelection {
+  /** 1-based page numbers to convert */
+  pages: number[];
+  /** Chapters (with their sub-sections) to leave out */
+  excludedChapterIds: string[];
+}
+
+export const BIBLIOGRAPHY_PATTERN = /^(?:[\dA-Z]+[.:)]?\s+)?(?:references|bibliography|works cited|literature cited|sources cited)\b/i;
+const BACK_MATTER_PATTERN = /^(?:[\dA-Z]+[.:)]?\s+)?(?:references|bibliography|works cited|literature cited|appendix|appendices|annex(?:es)?)\b/i;
+
+/**
+ * Parses a page range expression such as "1-3, 7, 10-25"
+ * @param input The range expression
+ * @param pageCount Number of pages in the document
+ * @returns Sorted, de-duplicated page numbers
+ */
+export function parsePageRanges(input: string, pageCount: number): number[] {
+  const pages = new Set<number>();
+  const parts = input.split(',').map(part => part.trim()).filter(part => part.length > 0);
+  if (parts.length === 0) throw new Error('Enter at least one page or range, for example "1-5, 8".');
+
+  for (const part of parts) {
+    const match = part.match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/);
+    if (!match) throw new Error(`"${part}" is not a page number or range.`);
+
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`"${part}" is outside pages 1-${pageCount}.`);
+    }
+    for (let page = start; page <= end; page++) pages.add(page);
+  }
+
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Formats page numbers as a compact range expression
+ * @param pages Page numbers
+ * @returns Expression such as "1-3, 7"
+ */
+export function formatPageRanges(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+
+  return ranges.join(', ');
+}
+
+/**
+ * Finds references, bibliography and appendix chapters
+ * @param chapters Chapter tree
+ * @returns Ids of the back-matter chapters
+ */
+export function findBackMatterChapters(chapters: Chapter[]): string[] {
+  return flattenChapters(chapters)
+    .filter(chapter => BACK_MATTER_PATTERN.test(chapter.title.trim()))
+    .map(chapter => chapter.id);
+}
+
+/**
+ * Finds the references or bibliography chapters, which are skipped by default
+ * @param chapters Chapter tree
+ * @returns Ids of the bibliography chapters
+ */
+export function findBibliographyChapters(chapters: Chapter[]): string[] {
+  return flattenChapters(chapters)
+    .filter(chapter => BIBLIOGRAPHY_PATTERN.test(chapter.title.trim()))
+    .map(chapter => chapter.id);
+}
+
+/**
+ * Works out the text range each excluded chapter covers: from its start to
+ * the start of the next chapter at the same or a higher level
+ */
+function excludedRanges(chapters: Chapter[], excludedIds: Set<string>, textLength: number): [number, number][] {
+  const flat = flattenChapters(chapters);
+  return flat
+    .filter(chapter => excludedIds.has(chapter.id))
+    .map((chapter) => {
+      const next = flat.find(other => other.startOffset > chapter.startOffset && other.level <= chapter.level);
+      return [chapter.startOffset, next ? next.startOffset : textLength] as [number, number];
+    });
+}
+
+/**
+ * Narrows a document to the chosen pages and chapters before conversion
+ * @param document The extracted document
+ * @param chapters Chapters detected on that document
+ * @param selection Pages to keep and chapters to drop
+ * @returns A document containing only the selected content
+ */
+export function applySelection(document: ExtractedDocument, chapters: Chapter[], selection: DocumentSelection): ExtractedDocument {
+  const selectedPages = new Set(selection.pages);
+  const excludedIds = new Set(selection.excludedChapterIds);
+  const ranges = excludedRanges(chapters, excludedIds, document.text.length);
+  const locations = locateBlocks(document.pages);
+  const isExcluded = (offset: number) => ranges.some(([start, end]) => offset >= start && offset < end);
+
+  const droppedBlocks = new Set<TextBlock>(
+    locations
+      .filter(location => isExcluded(location.start))
+      .map(location => location.block)
+  );
+
+  const pages = document.pages
+    .filter(page => selectedPages.has(page.pageNumber))
+    .map((page) => {
+      const blocks = page.blocks.filter(block => !droppedBlocks.has(block));
+      return { ...page, blocks, text: joinBlockText(blocks) };
+    });
+
+  // Bookmarks of dropped pages or chapters would point at the wrong text;
+  // they are found by where they point, since titles repeat ("Summary")
+  const pointsAtExcluded = (entry: OutlineEntry) => {
+    const location = locateOutlineEntry(entry, locations);
+    return location !== undefined && isExcluded(location.start);
+  };
+  const pruneOutline = (entries: OutlineEntry[]): OutlineEntry[] =>
+    entries.flatMap((entry) => {
+      const children = pruneOutline(entry.children);
+      const keep = entry.pageNumber !== null && selectedPages.has(entry.pageNumber) && !pointsAtExcluded(entry);
+      return keep ? [{ ...entry, children }] : children;
+    });
+
+  return {
+    ...document,
+    pages,
+    outline: pruneOutline(document.outline),
+    text: joinPageText(pages),
+  };
+}
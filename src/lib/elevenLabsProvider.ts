@@ -0,0 +1,94 @@
+import type { TTSCostEstimate, TTSOptions, TTSProvider, TTSProviderCapabilities, TTSVoice } from './ttsProvider';
+
+export interface ElevenLabsConfig {
+  apiKey: string;
+  modelId?: string;
+  defaultVoiceId?: string;
+  /** Price per 1,000 characters in USD, used for cost estimates */
+  costPer1kCharacters?: number;
+}
+
+const API_BASE = 'https://api.elevenlabs.io/v1';
+
+export const ELEVENLABS_PROVIDER_ID = 'elevenlabs';
+export const ELEVENLABS_PROVIDER_NAME = 'ElevenLabs';
+
+/**
+ * Cloud synthesis through the ElevenLabs text-to-speech API
+ */
+export class ElevenLabsProvider implements TTSProvider {
+  public readonly id = ELEVENLABS_PROVIDER_ID;
+  public readonly name = ELEVENLABS_PROVIDER_NAME;
+  public readonly capabilities: TTSProviderCapabilities = {
+    requiresApiKey: true,
+    requiresNetwork: true,
+    maxChunkLength: 2500,
+    outputMimeType: 'audio/mpeg',
+    supportsRate: false,
+    supportsPitch: false,
+    // The API reads <break> and <phoneme> tags in plain text, not full SSML documents
+    ssml: 'breaks-and-phonemes',
+  };
+
+  private readonly config: Required<ElevenLabsConfig>;
+
+  constructor(config: ElevenLabsConfig) {
+    this.config = {
+      modelId: 'eleven_monolingual_v1',
+      defaultVoiceId: 'ErXwobaYiN019PkySvjV',
+      costPer1kCharacters: 0.3,
+      ...config,
+    };
+  }
+
+  public async synthesize(text: string, options: TTSOptions): Promise<Blob> {
+    const voiceId = options.voiceId || this.config.defaultVoiceId;
+    const response = await fetch(`${API_BASE}/text-to-speech/${voiceId}`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'audio/mpeg',
+        'Content-Type': 'application/json',
+        'xi-api-key': this.config.apiKey
+      },
+      body: JSON.stringify({
+        text,
+        model_id: this.config.modelId,
+        voice_settings: {
+          stability: 0.5,
+          similarity_boost: 0.5
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`ElevenLabs API error: ${response.statusText}`);
+    }
+
+    return await response.blob();
+  }
+
+  public async listVoices(): Promise<TTSVoice[]> {
+    const response = await fetch(`${API_BASE}/voices`, {
+      headers: { 'xi-api-key': this.config.apiKey }
+    });
+
+    if (!response.ok) {
+      throw new Error(`ElevenLabs API error: ${response.statusText}`);
+    }
+
+    const data: { voices: { voice_id: string; name: string; labels?: { accent?: string } }[] } = await response.json();
+    return data.voices.map(voice => ({
+      id: voice.voice_id,
+      name: voice.name,
+      lang: voice.labels?.accent || 'en',
+    }));
+  }
+
+  public estimateCost(text: string): TTSCostEstimate {
+    return {
+      characters: text.length,
+      amount: (text.length / 1000) * this.config.costPer1kCharacters,
+      currency: 'USD',
+    };
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Structured output of PDF extraction. Coordinates are in PDF user space:
+ * origin at the bottom-left of the page, y grows upwards, units are points.
+ */
+
+export interface TextRun {
+  text: string;
+  x: number;
+  /** Baseline of the run */
+  y: number;
+  width: number;
+  height: number;
+  fontName: string;
+  fontSize: number;
+}
+
+export interface TextLine {
+  text: string;
+  runs: TextRun[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Dominant font size of the line */
+  fontSize: number;
+  /** Font of the longest run */
+  fontName: string;
+}
+
+export type BlockKind = 'paragraph' | 'heading' | 'footnote' | 'table' | 'figure' | 'equation' | 'code';
+
+/** Cells of a table found on the page, read row by row */
+export interface TableData {
+  /** Column titles, when the first row is a header */
+  header: string[] | null;
+  /** Body rows with one cell per column, '' for empty cells */
+  rows: string[][];
+}
+
+/** Figure found from an image on the page or its caption */
+export interface FigureData {
+  /** "Figure 3", null for an image without a caption */
+  label: string | null;
+  /** Caption text after the label */
+  caption: string;
+}
+
+/** Displayed equation found from math fonts and symbols */
+export interface MathData {
+  /** The formula as linear text: raised runs as ^{...}, lowered runs as _{...} */
+  expression: string;
+}
+
+export interface TextBlock {
+  kind: BlockKind;
+  /** Heading depth, 1 for the largest headings; only set on heading blocks */
+  headingLevel?: number;
+  /** Marker the note is numbered with ("3", "*"); only set on footnote blocks */
+  footnoteMarker?: string;
+  /** Markers of the footnotes this block cites, in reading order */
+  footnoteRefs?: string[];
+  /** Table cells; only set on table blocks */
+  table?: TableData;
+  /** Figure label and caption; only set on figure blocks */
+  figure?: FigureData;
+  /** Formula of the equation; only set on equation blocks */
+  math?: MathData;
+  text: string;
+  lines: TextLine[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ExtractedPage {
+  /** 1-based page number */
+  pageNumber: number;
+  width: number;
+  height: number;
+  /** Blocks in reading order; image-only figure blocks have no lines */
+  blocks: TextBlock[];
+  text: string;
+  /** Mean OCR word confidence, 0-100; only set on pages without a text layer */
+  ocrConfidence?: number;
+}
+
+export interface FontInfo {
+  /** Name pdf.js assigns to the font, as used by TextRun.fontName */
+  id: string;
+  /** PostScript name with any subset prefix ("ABCDEF+") removed */
+  name: string;
+  bold: boolean;
+  italic: boolean;
+  monospace: boolean;
+}
+
+/** Entry of the PDF's own table of contents (bookmarks) */
+export interface OutlineEntry {
+  title: string;
+  /** 1-based page the entry points to, when it could be resolved */
+  pageNumber: number | null;
+  children: OutlineEntry[];
+}
+
+export type BoilerplateKind = 'header' | 'footer' | 'page-number' | 'watermark';
+
+/** Repeated page furniture dropped before synthesis */
+export interface RemovedText {
+  kind: BoilerplateKind;
+  /** Text of the first occurrence */
+  text: string;
+  /** Pages the text was removed from */
+  pages: number[];
+}
+
+export interface ExtractedDocument {
+  fileName: string;
+  title?: string;
+  author?: string;
+  pageCount: number;
+  pages: ExtractedPage[];
+  fonts: Record<string, FontInfo>;
+  /** Bookmarks from the PDF, empty when the file has none */
+  outline: OutlineEntry[];
+  /** Narration text of the whole document, pages separated by blank lines */
+  text: string;
+  /** Headers, footers, page numbers and watermarks removed from the text */
+  removedText: RemovedText[];
+  /** Surnames listed in the references section, which mark narrative citations such as "Smith (2019)" */
+  citedAuthors: string[];
+}
+
+/**
+ * Joins page texts into the document narration text
+ * @param pages Extracted pages in order
+ * @returns Text with pages separated by blank lines
+ */
+export function joinPageText(pages: ExtractedPage[]): string {
+  return pages
+    .map(page => page.text)
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
+
+/**
+ * Joins block texts into the page text
+ * @param blocks Blocks in reading order
+ * @returns Text with blocks separated by blank lines
+ */
+export function joinBlockText(blocks: TextBlock[]): string {
+  return blocks
+    .map(block => block.text)
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
+
+export interface BlockLocation {
+  page: ExtractedPage;
+  block: TextBlock;
+  /** Offset of the block in ExtractedDocument.text */
+  start: number;
+  end: number;
+}
+
+/**
+ * Locates every block in the document narration text, matching the
+ * separators used by joinBlockText and joinPageText
+ * @param pages Extracted pages in order
+ * @returns Block locations in reading order
+ */
+export function locateBlocks(pages: ExtractedPage[]): BlockLocation[] {
+  const locations: BlockLocation[] = [];
+  let offset = 0;
+  let firstPage = true;
+
+  for (const page of pages) {
+    if (page.text.length === 0) continue;
+    if (!firstPage) offset += 2;
+    firstPage = false;
+
+    let firstBlock = true;
+    for (const block of page.blocks) {
+      if (block.text.length === 0) continue;
+      if (!firstBlock) offset += 2;
+      firstBlock = false;
+      locations.push({ page, block, start: offset, end: offset + block.text.length });
+      offset += block.text.length;
+    }
+  }
+
+  return locations;
+}
@@ -0,0 +1,118 @@
+import { detectChapters, type Chapter } from './chapterDetection';
+import type { ExtractedDocument } from './extractedDocument';
+import { PdfPasswordError, PdfPermissionError, PdfUnsupportedEncryptionError } from './pdfErrors';
+import { extractDocument, type ExtractionProgress } from './pdfExtractor';
+
+export interface ExtractionRequest {
+  file: File;
+  password?: string;
+}
+
+interface SerializedError {
+  name: string;
+  message: string;
+  incorrect?: boolean;
+  detail?: string;
+}
+
+export type ExtractionWorkerMessage =
+  | { type: 'progress'; progress: ExtractionProgress }
+  | { type: 'done'; document: ExtractedDocument; chapters: Chapter[] }
+  | { type: 'error'; error: SerializedError };
+
+export interface ExtractionResult {
+  document: ExtractedDocument;
+  chapters: Chapter[];
+}
+
+export interface BackgroundExtractionOptions {
+  password?: string;
+  onProgress?: (progress: ExtractionProgress) => void;
+  /** Aborting terminates the worker */
+  signal?: AbortSignal;
+}
+
+/**
+ * Checks whether an error comes from an aborted operation
+ * @param error The caught error
+ * @returns True for AbortError
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function restoreError(error: SerializedError): Error {
+  switch (error.name) {
+    case 'PdfPasswordError':
+      return new PdfPasswordError(!!error.incorrect);
+    case 'PdfUnsupportedEncryptionError':
+      return new PdfUnsupportedEncryptionError(error.detail);
+    case 'PdfPermissionError':
+      return new PdfPermissionError();
+    default:
+      return new Error(error.message);
+  }
+}
+
+async function extractOnMainThread(file: File, options: BackgroundExtractionOptions): Promise<ExtractionResult> {
+  const extracted = await extractDocument(file, options);
+  return { document: extracted, chapters: detectChapters(extracted) };
+}
+
+function startWorker(): Worker | null {
+  try {
+    return new Worker(new URL('./extractionWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    // No Worker support, or a content security policy forbids it
+    console.warn('Extraction worker unavailable, extracting on the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Extracts a PDF and detects its chapters in a Web Worker, reporting
+ * progress page by page
+ * @param file The PDF file
+ * @param options Password, progress callback and abort signal
+ * @returns The extracted document and its chapters
+ */
+export function extractInBackground(file: File, options: BackgroundExtractionOptions = {}): Promise<ExtractionResult> {
+  const { password, onProgress, signal } = options;
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  const worker = typeof Worker === 'undefined' ? null : startWorker();
+  if (!worker) return extractOnMainThread(file, options);
+
+  return new Promise<ExtractionResult>((resolve, reject) => {
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+    const handleAbort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ExtractionWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        finish();
+        resolve({ document: message.document, chapters: message.chapters });
+      } else {
+        finish();
+        reject(restoreError(message.error));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      console.error('Extraction worker failed:', event.message);
+      reject(new Error('Failed to extract text from PDF. Please make sure it\'s a valid PDF file with readable text.'));
+    };
+
+    worker.postMessage({ file, password } satisfies ExtractionRequest);
+  });
+}
@@ -0,0 +1,33 @@
+/**
+ * Web Worker that extracts and analyzes a PDF off the main thread, so large
+ * documents do not freeze the page. Started by extractionClient.
+ */
+import { detectChapters } from './chapterDetection';
+import type { ExtractionRequest, ExtractionWorkerMessage } from './extractionClient';
+import { PdfPasswordError, PdfUnsupportedEncryptionError } from './pdfErrors';
+import { extractDocument } from './pdfExtractor';
+
+const post = (message: ExtractionWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+  const { file, password } = event.data;
+  try {
+    const extracted = await extractDocument(file, {
+      password,
+      onProgress: progress => post({ type: 'progress', progress }),
+    });
+    post({ type: 'done', document: extracted, chapters: detectChapters(extracted) });
+  } catch (error) {
+    // Errors lose their class when posted, so send what is needed to rebuild them
+    const { name, message } = error instanceof Error ? error : new Error(String(error));
+    post({
+      type: 'error',
+      error: {
+        name,
+        message,
+        incorrect: error instanceof PdfPasswordError ? error.incorrect : undefined,
+        detail: error instanceof PdfUnsupportedEncryptionError ? error.detail : undefined,
+      },
+    });
+  }
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { TextBlock, TextLine } from './extractedDocument';
+import { markFigures, type ImageRegion } from './figureDetection';
+import { createBlock } from './pageLayout';
+
+const image: ImageRegion = { x: 72, y: 400, width: 300, height: 200 };
+
+/** A paragraph right below the image, one line per text */
+function paragraph(texts: string[], fontSize = 10): TextBlock {
+  const lines: TextLine[] = texts.map((text, index) => ({
+    text, runs: [], x: 72, y: 385 - index * 12, width: 300, height: fontSize, fontSize, fontName: 'Body',
+  }));
+  return createBlock(lines);
+}
+
+const body = paragraph(['Body text far from the image.', 'It goes on.', 'And on.']);
+const shifted = (block: TextBlock): TextBlock => ({ ...block, y: 100 });
+
+const figureLabels = (blocks: TextBlock[]) => markFigures(blocks, [image], 600, 800)
+  .filter(block => block.kind === 'figure')
+  .map(block => block.figure?.label ?? null);
+
+describe('markFigures', () => {
+  it.each([
+    ['a caption with a separator', paragraph(['Figure 3: Revenue by quarter'])],
+    ['a short caption without a separator', paragraph(['Figure 3 Revenue by quarter'])],
+    ['a long caption in a smaller font', paragraph(['Figure 3 Revenue by quarter', 'for each region,', 'in millions.'], 8)],
+  ])('reads %s next to an image', (_, caption) => {
+    expect(figureLabels([caption, shifted(body)])).toEqual(['Figure 3']);
+  });
+
+  it.each([
+    ['a sentence about the figure', paragraph(['Figure 3 shows that revenue grew.'])],
+    ['a long body paragraph', paragraph(['Figure 3 Revenue grew in every region', 'and the trend held through', 'the whole of the year.'])],
+  ])('leaves %s as text', (_, text) => {
+    // The image is still announced, just without a caption
+    expect(figureLabels([text, shifted(body)])).toEqual([null]);
+  });
+});
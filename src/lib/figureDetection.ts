@@ -0,0 +1,253 @@
+import { joinBlockText, joinPageText, type ExtractedDocument, type FigureData, type TextBlock } from './extractedDocument';
+import { createBlock } from './pageLayout';
+
+type PdfOps = typeof import('pdfjs-dist')['OPS'];
+type Matrix = [number, number, number, number, number, number];
+
+/** How figures are narrated: announced with their caption, or left out */
+export type FigureMode = 'announce' | 'skip';
+
+/** Area of a page an image is painted on, in PDF user space */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Images smaller than this share of the page are icons, rules or bullets */
+const MIN_IMAGE_SIDE = 0.08;
+/** Images covering this much of the page are backgrounds or scans */
+const MAX_IMAGE_AREA = 0.8;
+/** Uncaptioned images are only announced when this large */
+const MIN_UNCAPTIONED_AREA = 0.1;
+/** How far, in caption line heights, a caption may sit from its image */
+const CAPTION_DISTANCE = 3;
+/** Captions without punctuation after the number are this short, unless set smaller than the text */
+const MAX_BARE_CAPTION_LINES = 2;
+
+const CAPTION_PATTERN = /^(figure|fig\.?|chart|plate|illustration|image|exhibit)\s*(\d+(?:[.-]\d+)*[a-z]?|[IVXLC]+)\s*([:.—–|-])?\s*/i;
+const SENTENCE_END_PATTERN = /[.!?:]["'”’)\]]?$/;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m1: Matrix, m2: number[]): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+}
+
+/** Images are painted into the unit square, so its corners give the region */
+function unitSquareBounds(m: Matrix): ImageRegion {
+  const corners = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([u, v]) => [m[0] * u + m[2] * v + m[4], m[1] * u + m[3] * v + m[5]]);
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Finds where images are painted by replaying the transforms of a page's
+ * operator list
+ * @param operatorList Result of PDFPageProxy.getOperatorList
+ * @param ops pdf.js operator codes
+ * @param pageWidth Page width in points
+ * @param pageHeight Page height in points
+ * @returns Image regions large enough to be figures, without page backgrounds
+ */
+export function findImageRegions(
+  operatorList: { fnArray: number[]; argsArray: unknown[] },
+  ops: PdfOps,
+  pageWidth: number,
+  pageHeight: number
+): ImageRegion[] {
+  const imageOps = new Set<number>([ops.paintImageXObject, ops.paintInlineImageXObject, ops.paintImageMaskXObject, ops.paintSolidColorImageMask]);
+  const regions: ImageRegion[] = [];
+  const stack: Matrix[] = [];
+  let ctm = IDENTITY;
+
+  operatorList.fnArray.forEach((fn, index) => {
+    const args = operatorList.argsArray[index] as unknown[] | null;
+    if (fn === ops.save) {
+      stack.push(ctm);
+    } else if (fn === ops.restore) {
+      ctm = stack.pop() || ctm;
+    } else if (fn === ops.transform && args) {
+      ctm = multiply(ctm, args as number[]);
+    } else if (fn === ops.paintFormXObjectBegin) {
+      stack.push(ctm);
+      if (Array.isArray(args?.[0])) ctm = multiply(ctm, args[0] as number[]);
+    } else if (fn === ops.paintFormXObjectEnd) {
+      ctm = stack.pop() || ctm;
+    } else if (imageOps.has(fn)) {
+      regions.push(unitSquareBounds(ctm));
+    }
+  });
+
+  return regions.filter(region =>
+    region.width >= pageWidth * MIN_IMAGE_SIDE
+    && region.height >= pageHeight * MIN_IMAGE_SIDE
+    && region.width * region.height <= pageWidth * pageHeight * MAX_IMAGE_AREA
+  );
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Reads a figure caption such as "Fig. 3: Revenue by quarter"
+ * @param text Block text
+ * @param requireSeparator Only accept captions with punctuation after the number,
+ *   so "Figure 3 shows..." in running text is not taken for a caption
+ * @returns The figure data, or null
+ */
+function readCaption(text: string, requireSeparator: boolean): FigureData | null {
+  const match = CAPTION_PATTERN.exec(text);
+  if (!match || (requireSeparator && !match[3])) return null;
+  // "Figure 3 shows that..." goes on as a sentence
+  if (!match[3] && /^\p{Ll}/u.test(text.slice(match[0].length))) return null;
+  const word = /^fig/i.test(match[1]) ? 'Figure' : match[1][0].toUpperCase() + match[1].slice(1).toLowerCase();
+  return { label: `${word} ${match[2]}`, caption: text.slice(match[0].length).trim() };
+}
+
+const overlapsHorizontally = (a: ImageRegion, b: ImageRegion) => a.x < b.x + b.width && a.x + a.width > b.x;
+
+/**
+ * Tells whether a block next to an image may be a caption without
+ * punctuation after its number: a line or two, or set smaller than the text
+ * around it, so a paragraph that mentions the figure is not taken for one
+ */
+function mayBeBareCaption(block: TextBlock, bodySize: number): boolean {
+  return block.lines.length <= MAX_BARE_CAPTION_LINES || median(block.lines.map(line => line.fontSize)) < bodySize * 0.95;
+}
+
+function isNear(block: TextBlock, image: ImageRegion): boolean {
+  const reach = CAPTION_DISTANCE * Math.max(...block.lines.map(line => line.height));
+  const below = image.y - (block.y + block.height);
+  const above = block.y - (image.y + image.height);
+  return overlapsHorizontally(block, image) && Math.max(below, above) <= reach;
+}
+
+/**
+ * Announcement read for a figure
+ * @param figure The figure data
+ * @returns Text such as "Figure 3: Revenue by quarter."
+ */
+export function announceFigure(figure: FigureData): string {
+  if (!figure.label) return 'Image.';
+  if (!figure.caption) return `${figure.label}.`;
+  return `${figure.label}: ${figure.caption}${SENTENCE_END_PATTERN.test(figure.caption) ? '' : '.'}`;
+}
+
+function continuesParagraph(previous: TextBlock | undefined, next: TextBlock | undefined): boolean {
+  return !!previous && !!next && previous.kind === 'paragraph' && next.kind === 'paragraph'
+    && !SENTENCE_END_PATTERN.test(previous.text) && /^\p{Ll}/u.test(next.text);
+}
+
+/**
+ * Moves a figure to where it is read: right after the first paragraph
+ * that refers to it, else after the paragraph it interrupts. A paragraph
+ * split in two by the figure is joined back together.
+ */
+function placeFigure(blocks: TextBlock[], figure: TextBlock): TextBlock[] {
+  const index = blocks.indexOf(figure);
+  const result = blocks.filter(block => block !== figure);
+  let position = index;
+
+  if (continuesParagraph(result[index - 1], result[index])) {
+    const [previous, next] = [result[index - 1], result[index]];
+    result.splice(index - 1, 2, { ...createBlock([...previous.lines, ...next.lines]), kind: 'paragraph' });
+    position = index;
+  }
+
+  const number = figure.figure?.label?.split(' ')[1];
+  if (number) {
+    const mention = new RegExp(`\\b(?:fig(?:ure)?\\.?|chart|plate|illustration|image|exhibit)s?\\s*${number.replace(/[.-]/g, '\\$&')}\\b`, 'i');
+    const referring = result.findIndex(block => block.kind === 'paragraph' && mention.test(block.text));
+    if (referring !== -1) position = referring + 1;
+  }
+
+  result.splice(Math.min(position, result.length), 0, figure);
+  return result;
+}
+
+/**
+ * Finds the figures of a page: caption blocks ("Figure 3: ...") near an
+ * image, captions on their own (charts drawn as vector graphics) and large
+ * images without a caption. Each becomes a figure block at its logical
+ * reading position.
+ * @param blocks Page blocks in reading order
+ * @param images Image regions from findImageRegions
+ * @param pageWidth Page width in points
+ * @param pageHeight Page height in points
+ * @returns The blocks with figures marked and placed
+ */
+export function markFigures(blocks: TextBlock[], images: ImageRegion[], pageWidth: number, pageHeight: number): TextBlock[] {
+  const captioned = new Set<ImageRegion>();
+  const figures: TextBlock[] = [];
+  const bodySize = median(blocks.filter(block => block.kind === 'paragraph').flatMap(block => block.lines.map(line => line.fontSize)));
+
+  let result = blocks.map((block) => {
+    if (block.kind !== 'paragraph') return block;
+    const nearImages = images.filter(image => isNear(block, image));
+    const figure = readCaption(block.text, nearImages.length === 0 || !mayBeBareCaption(block, bodySize));
+    if (!figure) return block;
+
+    nearImages.forEach(image => captioned.add(image));
+    const marked: TextBlock = { ...block, kind: 'figure', figure, text: announceFigure(figure) };
+    figures.push(marked);
+    return marked;
+  });
+
+  for (const image of images) {
+    if (captioned.has(image) || image.width * image.height < pageWidth * pageHeight * MIN_UNCAPTIONED_AREA) continue;
+    const figure: TextBlock = {
+      kind: 'figure',
+      figure: { label: null, caption: '' },
+      text: announceFigure({ label: null, caption: '' }),
+      lines: [],
+      ...image,
+    };
+    // Read the image where it sits, before the first block below it
+    const below = result.findIndex(block => block.y + block.height <= image.y + image.height && overlapsHorizontally(block, image));
+    result.splice(below === -1 ? result.length : below, 0, figure);
+  }
+
+  for (const figure of figures) {
+    result = placeFigure(result, figure);
+  }
+  return result;
+}
+
+/**
+ * Announces or drops every figure in a document
+ * @param document The extracted document
+ * @param mode Figure narration mode
+ * @returns A copy with figure blocks narrated the chosen way
+ */
+export function applyFigureMode(document: ExtractedDocument, mode: FigureMode): ExtractedDocument {
+  if (mode === 'announce') return document;
+  const pages = document.pages.map((page) => {
+    const blocks = page.blocks.filter(block => block.kind !== 'figure');
+    return { ...page, blocks, text: joinBlockText(blocks) };
+  });
+  return { ...document, pages, text: joinPageText(pages) };
+}
+
+/**
+ * Counts the figures found in a document
+ * @param document The extracted document
+ * @returns Number of figure blocks
+ */
+export function countFigures(document: ExtractedDocument): number {
+  return document.pages.reduce((count, page) => count + page.blocks.filter(block => block.kind === 'figure').length, 0);
+}
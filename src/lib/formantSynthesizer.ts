@@ -0,0 +1,268 @@
+import { textToPhrases, type Phoneme, type PhonemeToken, type PhraseIntonation } from './letterToSound';
+
+/**
+ * Small cascade/parallel formant synthesizer in the style of Klatt (1980).
+ * Runs entirely in the page, so it needs no network and no native engine.
+ */
+
+export interface FormantSynthesisOptions {
+  sampleRate?: number;
+  /** Speaking rate multiplier, 1 is normal speed */
+  rate?: number;
+  /** Pitch multiplier, 1 is the default voice */
+  pitch?: number;
+  /** Output gain between 0 and 1 */
+  volume?: number;
+}
+
+type PhonemeKind = 'vowel' | 'diphthong' | 'approximant' | 'nasal' | 'fricative' | 'plosive' | 'affricate' | 'aspirate';
+
+interface PhonemeSpec {
+  kind: PhonemeKind;
+  /** F1-F3 targets in Hz; diphthongs glide from formants to endFormants */
+  formants: [number, number, number];
+  endFormants?: [number, number, number];
+  durationMs: number;
+  voiced: boolean;
+  /** Centre frequency and bandwidth of the frication noise */
+  noise?: [number, number];
+  noiseGain?: number;
+}
+
+const PHONEMES: Record<Phoneme, PhonemeSpec> = {
+  IY: { kind: 'vowel', formants: [270, 2290, 3010], durationMs: 140, voiced: true },
+  IH: { kind: 'vowel', formants: [390, 1990, 2550], durationMs: 90, voiced: true },
+  EH: { kind: 'vowel', formants: [530, 1840, 2480], durationMs: 100, voiced: true },
+  AE: { kind: 'vowel', formants: [660, 1720, 2410], durationMs: 130, voiced: true },
+  AA: { kind: 'vowel', formants: [730, 1090, 2440], durationMs: 140, voiced: true },
+  AH: { kind: 'vowel', formants: [640, 1190, 2390], durationMs: 100, voiced: true },
+  AO: { kind: 'vowel', formants: [570, 840, 2410], durationMs: 140, voiced: true },
+  UH: { kind: 'vowel', formants: [440, 1020, 2240], durationMs: 90, voiced: true },
+  UW: { kind: 'vowel', formants: [300, 870, 2240], durationMs: 140, voiced: true },
+  ER: { kind: 'vowel', formants: [490, 1350, 1690], durationMs: 130, voiced: true },
+  AX: { kind: 'vowel', formants: [500, 1500, 2500], durationMs: 60, voiced: true },
+  EY: { kind: 'diphthong', formants: [480, 1720, 2520], endFormants: [330, 2200, 2800], durationMs: 160, voiced: true },
+  AY: { kind: 'diphthong', formants: [730, 1090, 2440], endFormants: [330, 2100, 2800], durationMs: 180, voiced: true },
+  OW: { kind: 'diphthong', formants: [540, 1100, 2300], endFormants: [450, 900, 2300], durationMs: 160, voiced: true },
+  AW: { kind: 'diphthong', formants: [730, 1090, 2440], endFormants: [440, 1020, 2240], durationMs: 180, voiced: true },
+  OY: { kind: 'diphthong', formants: [570, 840, 2410], endFormants: [330, 2100, 2800], durationMs: 180, voiced: true },
+  L: { kind: 'approximant', formants: [360, 1300, 2700], durationMs: 70, voiced: true },
+  R: { kind: 'approximant', formants: [420, 1300, 1600], durationMs: 70, voiced: true },
+  W: { kind: 'approximant', formants: [300, 610, 2200], durationMs: 60, voiced: true },
+  Y: { kind: 'approximant', formants: [260, 2070, 3020], durationMs: 60, voiced: true },
+  M: { kind: 'nasal', formants: [250, 1270, 2130], durationMs: 75, voiced: true },
+  N: { kind: 'nasal', formants: [250, 1340, 2470], durationMs: 70, voiced: true },
+  NG: { kind: 'nasal', formants: [250, 2000, 2900], durationMs: 80, voiced: true },
+  F: { kind: 'fricative', formants: [340, 1100, 2080], durationMs: 100, voiced: false, noise: [4000, 3000], noiseGain: 0.25 },
+  V: { kind: 'fricative', formants: [220, 1100, 2080], durationMs: 70, voiced: true, noise: [4000, 3000], noiseGain: 0.15 },
+  TH: { kind: 'fricative', formants: [320, 1290, 2540], durationMs: 100, voiced: false, noise: [4500, 3000], noiseGain: 0.2 },
+  DH: { kind: 'fricative', formants: [270, 1290, 2540], durationMs: 50, voiced: true, noise: [4500, 3000], noiseGain: 0.1 },
+  S: { kind: 'fricative', formants: [320, 1390, 2530], durationMs: 110, voiced: false, noise: [5500, 2000], noiseGain: 0.6 },
+  Z: { kind: 'fricative', formants: [240, 1390, 2530], durationMs: 80, voiced: true, noise: [5500, 2000], noiseGain: 0.35 },
+  SH: { kind: 'fricative', formants: [300, 1840, 2750], durationMs: 110, voiced: false, noise: [2700, 1500], noiseGain: 0.6 },
+  ZH: { kind: 'fricative', formants: [300, 1840, 2750], durationMs: 80, voiced: true, noise: [2700, 1500], noiseGain: 0.35 },
+  HH: { kind: 'aspirate', formants: [500, 1500, 2500], durationMs: 60, voiced: false },
+  P: { kind: 'plosive', formants: [400, 1100, 2150], durationMs: 90, voiced: false, noise: [1000, 1500], noiseGain: 0.3 },
+  B: { kind: 'plosive', formants: [200, 1100, 2150], durationMs: 70, voiced: true, noise: [1000, 1500], noiseGain: 0.2 },
+  T: { kind: 'plosive', formants: [400, 1600, 2600], durationMs: 90, voiced: false, noise: [4000, 2500], noiseGain: 0.4 },
+  D: { kind: 'plosive', formants: [200, 1600, 2600], durationMs: 70, voiced: true, noise: [4000, 2500], noiseGain: 0.3 },
+  K: { kind: 'plosive', formants: [300, 1990, 2850], durationMs: 90, voiced: false, noise: [2000, 1500], noiseGain: 0.4 },
+  G: { kind: 'plosive', formants: [200, 1990, 2850], durationMs: 70, voiced: true, noise: [2000, 1500], noiseGain: 0.3 },
+  CH: { kind: 'affricate', formants: [350, 1800, 2820], durationMs: 120, voiced: false, noise: [2700, 1500], noiseGain: 0.55 },
+  JH: { kind: 'affricate', formants: [260, 1800, 2820], durationMs: 100, voiced: true, noise: [2700, 1500], noiseGain: 0.35 },
+};
+
+const FORMANT_BANDWIDTHS: [number, number, number] = [60, 90, 150];
+const F4 = 3500;
+const BASE_F0 = 110;
+
+/** Second-order digital resonator (Klatt 1980, eq. 2) */
+class Resonator {
+  private a = 0;
+  private b = 0;
+  private c = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(private readonly sampleRate: number) {}
+
+  public set(frequency: number, bandwidth: number): void {
+    const t = 1 / this.sampleRate;
+    this.c = -Math.exp(-2 * Math.PI * bandwidth * t);
+    this.b = 2 * Math.exp(-Math.PI * bandwidth * t) * Math.cos(2 * Math.PI * frequency * t);
+    this.a = 1 - this.b - this.c;
+  }
+
+  public process(x: number): number {
+    const y = this.a * x + this.b * this.y1 + this.c * this.y2;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/** Deterministic noise source so the same text always renders the same samples */
+function createNoise(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return ((state >>> 0) / 0xffffffff) * 2 - 1;
+  };
+}
+
+interface Segment {
+  spec: PhonemeSpec | null;
+  samples: number;
+  stressed: boolean;
+}
+
+function buildSegments(tokens: PhonemeToken[], sampleRate: number, rate: number): Segment[] {
+  return tokens.map((token) => {
+    if (token.phoneme === '_') {
+      return { spec: null, samples: Math.round(((token.pauseMs || 0) / 1000 / rate) * sampleRate), stressed: false };
+    }
+    const spec = PHONEMES[token.phoneme];
+    const durationMs = spec.durationMs * (token.stressed ? 1.2 : 1);
+    return { spec, samples: Math.round((durationMs / 1000 / rate) * sampleRate), stressed: !!token.stressed };
+  });
+}
+
+function pitchAt(progress: number, contour: PhraseIntonation['contour'], pitch: number, stressed: boolean): number {
+  // Gentle declination over the phrase with a terminal fall or rise
+  let f0 = BASE_F0 * (1.1 - 0.15 * progress);
+  if (progress > 0.8) {
+    const tail = (progress - 0.8) / 0.2;
+    if (contour === 'fall') f0 *= 1 - 0.15 * tail;
+    if (contour === 'rise') f0 *= 1 + 0.35 * tail;
+  }
+  if (stressed) f0 *= 1.08;
+  return f0 * pitch;
+}
+
+/**
+ * Renders text to mono PCM samples in the range -1..1
+ * @param text Text to speak
+ * @param options Rate, pitch, volume and sample rate
+ * @returns Samples and the sample rate they were rendered at
+ */
+export function renderSpeech(text: string, options: FormantSynthesisOptions = {}): { samples: Float32Array; sampleRate: number } {
+  const sampleRate = options.sampleRate || 22050;
+  const rate = options.rate || 1;
+  const pitch = options.pitch || 1;
+  const volume = options.volume ?? 1;
+
+  const phrases = textToPhrases(text);
+  const phraseSegments = phrases.map(phrase => buildSegments(phrase.tokens, sampleRate, rate));
+  const totalSamples = phraseSegments.flat().reduce((sum, segment) => sum + segment.samples, 0);
+  const output = new Float32Array(totalSamples);
+
+  const cascade = [new Resonator(sampleRate), new Resonator(sampleRate), new Resonator(sampleRate), new Resonator(sampleRate)];
+  const fricationFilter = new Resonator(sampleRate);
+  cascade[3].set(F4, 250);
+  const noise = createNoise(text.length * 7919 + 17);
+
+  let glottalPhase = 0;
+  let previousGlottal = 0;
+  let currentFormants: [number, number, number] = [500, 1500, 2500];
+  let position = 0;
+
+  phrases.forEach((phrase, phraseIndex) => {
+    const segments = phraseSegments[phraseIndex];
+    const phraseLength = segments.reduce((sum, segment) => sum + segment.samples, 0) || 1;
+    let phrasePosition = 0;
+
+    segments.forEach((segment) => {
+      const { spec } = segment;
+      const startFormants = currentFormants;
+      const transitionSamples = Math.min(Math.round(0.03 * sampleRate), Math.floor(segment.samples / 2));
+
+      for (let i = 0; i < segment.samples; i++, position++, phrasePosition++) {
+        if (!spec) {
+          output[position] = 0;
+          continue;
+        }
+
+        const t = i / segment.samples;
+        const target = spec.endFormants
+          ? spec.formants.map((f, k) => f + (spec.endFormants![k] - f) * Math.max(0, (t - 0.3) / 0.7)) as [number, number, number]
+          : spec.formants;
+        const blend = transitionSamples > 0 ? Math.min(1, i / transitionSamples) : 1;
+        const formants = target.map((f, k) => startFormants[k] + (f - startFormants[k]) * blend);
+
+        if (i % 32 === 0) {
+          const widen = spec.kind === 'nasal' ? 2 : 1;
+          for (let k = 0; k < 3; k++) cascade[k].set(formants[k], FORMANT_BANDWIDTHS[k] * widen);
+          if (spec.noise) fricationFilter.set(spec.noise[0], spec.noise[1]);
+        }
+
+        // Voicing source: differentiated Rosenberg-style glottal pulse
+        const f0 = pitchAt(phrasePosition / phraseLength, phrase.contour, pitch, segment.stressed);
+        glottalPhase += f0 / sampleRate;
+        if (glottalPhase >= 1) glottalPhase -= 1;
+        const glottal = glottalPhase < 0.6 ? Math.sin(Math.PI * glottalPhase / 0.6) ** 2 : 0;
+        const voicing = glottal - previousGlottal;
+        previousGlottal = glottal;
+
+        // Amplitude envelope per phoneme class
+        const edge = Math.min(1, i / (0.01 * sampleRate), (segment.samples - i) / (0.01 * sampleRate));
+        let voiceGain = 0;
+        let noiseGain = 0;
+        let aspiration = 0;
+
+        switch (spec.kind) {
+          case 'vowel':
+          case 'diphthong':
+            voiceGain = segment.stressed ? 1.1 : 0.9;
+            break;
+          case 'approximant':
+            voiceGain = 0.6;
+            break;
+          case 'nasal':
+            voiceGain = 0.45;
+            break;
+          case 'fricative':
+            voiceGain = spec.voiced ? 0.3 : 0;
+            noiseGain = spec.noiseGain || 0;
+            break;
+          case 'aspirate':
+            aspiration = 0.35;
+            break;
+          case 'affricate':
+            // Short closure followed by frication
+            if (t > 0.3) noiseGain = spec.noiseGain || 0;
+            voiceGain = spec.voiced ? 0.2 : 0;
+            break;
+          case 'plosive':
+            // Closure, release burst, then aspiration for voiceless stops
+            if (t < 0.55) {
+              voiceGain = spec.voiced ? 0.12 : 0;
+            } else if (t < 0.7) {
+              noiseGain = spec.noiseGain || 0;
+            } else {
+              aspiration = spec.voiced ? 0 : 0.2;
+              voiceGain = spec.voiced ? 0.5 : 0;
+            }
+            break;
+        }
+
+        const excitation = voicing * voiceGain * 8 + noise() * aspiration * 0.15;
+        let sample = excitation;
+        for (const resonator of cascade) sample = resonator.process(sample);
+        if (noiseGain > 0) sample += fricationFilter.process(noise()) * noiseGain;
+        output[position] = sample * edge;
+      }
+
+      if (spec) currentFormants = spec.endFormants || spec.formants;
+    });
+  });
+
+  // Normalise to a comfortable peak and apply the requested volume
+  let peak = 0;
+  for (let i = 0; i < output.length; i++) peak = Math.max(peak, Math.abs(output[i]));
+  const gain = peak > 0 ? (0.8 / peak) * volume : 0;
+  for (let i = 0; i < output.length; i++) output[i] *= gain;
+
+  return { samples: output, sampleRate };
+}
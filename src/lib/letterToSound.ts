@@ -0,0 +1,218 @@
+/**
+ * Rule-based English letter-to-sound conversion for the offline synthesizer.
+ * Phonemes use ARPAbet symbols without stress digits; "_" marks a pause.
+ */
+
+export type Phoneme =
+  | 'IY' | 'IH' | 'EH' | 'AE' | 'AA' | 'AH' | 'AO' | 'UH' | 'UW' | 'ER' | 'AX'
+  | 'EY' | 'AY' | 'OW' | 'AW' | 'OY'
+  | 'P' | 'B' | 'T' | 'D' | 'K' | 'G'
+  | 'F' | 'V' | 'TH' | 'DH' | 'S' | 'Z' | 'SH' | 'ZH' | 'HH'
+  | 'CH' | 'JH'
+  | 'M' | 'N' | 'NG'
+  | 'L' | 'R' | 'W' | 'Y';
+
+export interface PhonemeToken {
+  phoneme: Phoneme | '_';
+  /** Pause length in milliseconds, only set for "_" */
+  pauseMs?: number;
+  /** True for the first vowel of a content word */
+  stressed?: boolean;
+}
+
+export interface PhraseIntonation {
+  tokens: PhonemeToken[];
+  /** Terminal contour of the phrase */
+  contour: 'fall' | 'rise' | 'continue';
+}
+
+const EXCEPTIONS: Record<string, string> = {
+  a: 'AX', about: 'AX B AW T', after: 'AE F T ER', all: 'AO L', also: 'AO L S OW',
+  an: 'AE N', and: 'AE N D', any: 'EH N IY', are: 'AA R', as: 'AE Z', at: 'AE T',
+  be: 'B IY', been: 'B IH N', because: 'B IH K AO Z', but: 'B AH T', by: 'B AY',
+  can: 'K AE N', could: 'K UH D', do: 'D UW', document: 'D AA K Y AX M AX N T',
+  does: 'D AH Z', each: 'IY CH', first: 'F ER S T', for: 'F AO R', four: 'F AO R', from: 'F R AH M',
+  had: 'HH AE D', has: 'HH AE Z', have: 'HH AE V', he: 'HH IY', her: 'HH ER',
+  his: 'HH IH Z', how: 'HH AW', i: 'AY', if: 'IH F', in: 'IH N', into: 'IH N T UW',
+  is: 'IH Z', it: 'IH T', know: 'N OW', like: 'L AY K', make: 'M EY K',
+  many: 'M EH N IY', more: 'M AO R', new: 'N UW', no: 'N OW', not: 'N AA T',
+  of: 'AH V', on: 'AA N', one: 'W AH N', only: 'OW N L IY', or: 'AO R',
+  other: 'AH DH ER', out: 'AW T', page: 'P EY JH', people: 'P IY P AX L',
+  said: 'S EH D', she: 'SH IY', should: 'SH UH D', so: 'S OW', some: 'S AH M',
+  than: 'DH AE N', that: 'DH AE T', the: 'DH AX', their: 'DH EH R', them: 'DH EH M',
+  then: 'DH EH N', there: 'DH EH R', these: 'DH IY Z', they: 'DH EY', this: 'DH IH S',
+  those: 'DH OW Z', through: 'TH R UW', time: 'T AY M', to: 'T UW', two: 'T UW',
+  up: 'AH P', use: 'Y UW Z', very: 'V EH R IY', was: 'W AA Z', water: 'W AO T ER',
+  we: 'W IY', were: 'W ER', what: 'W AH T', when: 'W EH N', where: 'W EH R',
+  which: 'W IH CH', who: 'HH UW', will: 'W IH L', with: 'W IH DH', word: 'W ER D',
+  work: 'W ER K', would: 'W UH D', you: 'Y UW', your: 'Y AO R',
+};
+
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has',
+  'have', 'he', 'her', 'his', 'i', 'if', 'in', 'into', 'is', 'it', 'of', 'on', 'or',
+  'she', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'they', 'this', 'to',
+  'was', 'we', 'were', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+/** Letters read on their own, as in spelled-out acronyms ("F B I") */
+const LETTER_NAMES: Record<string, string> = {
+  a: 'EY', b: 'B IY', c: 'S IY', d: 'D IY', e: 'IY', f: 'EH F', g: 'JH IY', h: 'EY CH', i: 'AY',
+  j: 'JH EY', k: 'K EY', l: 'EH L', m: 'EH M', n: 'EH N', o: 'OW', p: 'P IY', q: 'K Y UW', r: 'AA R',
+  s: 'EH S', t: 'T IY', u: 'Y UW', v: 'V IY', w: 'D AH B AX L Y UW', x: 'EH K S', y: 'W AY', z: 'Z IY',
+};
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+const VOWEL_LETTERS = 'aeiouy';
+const LONG_VOWELS: Record<string, string> = { a: 'EY', e: 'IY', i: 'AY', o: 'OW', u: 'UW', y: 'AY' };
+const SHORT_VOWELS: Record<string, string> = { a: 'AE', e: 'EH', i: 'IH', o: 'AA', u: 'AH', y: 'IH' };
+const CONSONANTS: Record<string, string> = {
+  b: 'B', d: 'D', f: 'F', h: 'HH', j: 'JH', k: 'K', l: 'L', m: 'M', n: 'N',
+  p: 'P', q: 'K', r: 'R', t: 'T', v: 'V', w: 'W', z: 'Z',
+};
+
+// Longest patterns first; "^" anchors a pattern to the start of the word
+const GRAPHEME_RULES: [string, string][] = [
+  ['tion', 'SH AX N'], ['sion', 'ZH AX N'], ['ture', 'CH ER'], ['ough', 'AO'], ['augh', 'AO'],
+  ['igh', 'AY'], ['tch', 'CH'], ['dge', 'JH'], ['sch', 'S K'], ['^kn', 'N'], ['^wr', 'R'],
+  ['ch', 'CH'], ['sh', 'SH'], ['th', 'TH'], ['ph', 'F'], ['wh', 'W'], ['ck', 'K'],
+  ['ng', 'NG'], ['qu', 'K W'], ['gh', ''], ['ee', 'IY'], ['ea', 'IY'], ['oo', 'UW'],
+  ['ou', 'AW'], ['ai', 'EY'], ['ay', 'EY'], ['oa', 'OW'], ['oi', 'OY'], ['oy', 'OY'],
+  ['au', 'AO'], ['aw', 'AO'], ['ew', 'UW'], ['ie', 'IY'], ['ei', 'EY'],
+  ['ar', 'AA R'], ['er', 'ER'], ['ir', 'ER'], ['ur', 'ER'], ['or', 'AO R'],
+];
+
+const isVowelLetter = (ch: string | undefined) => ch !== undefined && VOWEL_LETTERS.includes(ch);
+
+function spellWord(word: string): string[] {
+  const phonemes: string[] = [];
+  let i = 0;
+
+  while (i < word.length) {
+    const ch = word[i];
+    const next = word[i + 1];
+    const rest = word.slice(i);
+
+    const rule = GRAPHEME_RULES.find(([pattern]) =>
+      pattern.startsWith('^') ? i === 0 && rest.startsWith(pattern.slice(1)) : rest.startsWith(pattern)
+    );
+    if (rule) {
+      const [pattern, output] = rule;
+      if (output) phonemes.push(...output.split(' '));
+      i += pattern.replace('^', '').length;
+      continue;
+    }
+
+    // Collapse doubled consonants ("ll", "ss", "tt")
+    if (!isVowelLetter(ch) && ch === word[i - 1]) {
+      i++;
+      continue;
+    }
+
+    if (ch === 'y') {
+      if (i === 0) phonemes.push('Y');
+      else if (i === word.length - 1) phonemes.push(word.length <= 3 ? 'AY' : 'IY');
+      else phonemes.push('IH');
+      i++;
+      continue;
+    }
+
+    if (isVowelLetter(ch)) {
+      // Silent final "e"
+      if (ch === 'e' && i === word.length - 1 && word.length > 2) {
+        i++;
+        continue;
+      }
+      // Word-final "o" is long ("go", "hello")
+      if (ch === 'o' && i === word.length - 1) {
+        phonemes.push('OW');
+        i++;
+        continue;
+      }
+      // Magic "e": vowel + consonant + final "e" makes the vowel long
+      const magicE = next !== undefined && !isVowelLetter(next) && word[i + 2] === 'e' && i + 3 === word.length;
+      phonemes.push(magicE ? LONG_VOWELS[ch] : SHORT_VOWELS[ch]);
+      i++;
+      continue;
+    }
+
+    switch (ch) {
+      case 'c':
+        phonemes.push(next === 'e' || next === 'i' || next === 'y' ? 'S' : 'K');
+        break;
+      case 'g':
+        phonemes.push(next === 'e' || next === 'i' || next === 'y' ? 'JH' : 'G');
+        break;
+      case 'x':
+        phonemes.push('K', 'S');
+        break;
+      case 's': {
+        const between = isVowelLetter(word[i - 1]) && isVowelLetter(next);
+        const voicedEnd = i === word.length - 1 && i > 0 && !'ptkf'.includes(word[i - 1]);
+        phonemes.push(between || voicedEnd ? 'Z' : 'S');
+        break;
+      }
+      default:
+        if (CONSONANTS[ch]) phonemes.push(CONSONANTS[ch]);
+    }
+    i++;
+  }
+
+  return phonemes;
+}
+
+function wordToTokens(word: string): PhonemeToken[] {
+  const lower = word.toLowerCase();
+  // A single letter is its name, except the article "a"
+  const letterName = word.length === 1 && word !== 'a' ? LETTER_NAMES[lower] : undefined;
+  const pronunciation = letterName || EXCEPTIONS[lower];
+  const spelled = pronunciation ? pronunciation.split(' ') : spellWord(lower);
+  const isContentWord = !FUNCTION_WORDS.has(lower);
+  let stressPlaced = false;
+
+  return spelled.map((phoneme) => {
+    const isVowel = /^(IY|IH|EH|AE|AA|AH|AO|UH|UW|ER|AX|EY|AY|OW|AW|OY)$/.test(phoneme);
+    const stressed = isContentWord && isVowel && !stressPlaced;
+    if (stressed) stressPlaced = true;
+    return { phoneme: phoneme as Phoneme, stressed };
+  });
+}
+
+/**
+ * Converts text into phrases of phoneme tokens, splitting on punctuation
+ * @param text Text to convert
+ * @returns Phrases with their terminal intonation
+ */
+export function textToPhrases(text: string): PhraseIntonation[] {
+  const phrases: PhraseIntonation[] = [];
+  let tokens: PhonemeToken[] = [];
+
+  const closePhrase = (contour: PhraseIntonation['contour'], pauseMs: number) => {
+    if (tokens.length > 0) {
+      tokens.push({ phoneme: '_', pauseMs });
+      phrases.push({ tokens, contour });
+    }
+    tokens = [];
+  };
+
+  const parts = text.match(/[A-Za-z']+|\d|[.!?;:,]/g) || [];
+  for (const part of parts) {
+    if (/^\d$/.test(part)) {
+      tokens.push(...wordToTokens(DIGIT_WORDS[Number(part)]));
+    } else if (part === ',' || part === ';' || part === ':') {
+      closePhrase('continue', part === ',' ? 180 : 260);
+    } else if (part === '?') {
+      closePhrase('rise', 380);
+    } else if (part === '.' || part === '!') {
+      closePhrase('fall', 380);
+    } else {
+      const word = part.replace(/'/g, '');
+      if (word.length > 0) tokens.push(...wordToTokens(word));
+      tokens.push({ phoneme: '_', pauseMs: 15 });
+    }
+  }
+  closePhrase('fall', 300);
+
+  return phrases;
+}
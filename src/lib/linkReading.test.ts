@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { readLinks } from './linkReading';
+
+const hold = (reading: string) => `[${reading}]`;
+
+describe('readLinks', () => {
+  it.each([
+    ['Visit https://www.example.com/docs today.', 'Visit [link to example dot com] today.'],
+    ['Mail jane.doe@example.com now.', 'Mail [jane dot doe at example dot com] now.'],
+    ['Open /usr/local/bin please.', 'Open [usr slash local slash bin] please.'],
+    ['See example.org for more.', 'See [link to example dot org] for more.'],
+    ['See github.com/user/repo now.', 'See [link to github dot com] now.'],
+  ])('reads %j', (text, expected) => {
+    expect(readLinks(text, 'domain', hold)).toBe(expected);
+  });
+
+  it('reads every part of an address in full mode', () => {
+    expect(readLinks('Visit https://example.com/a?b=c now.', 'full', hold))
+      .toBe('Visit [example dot com slash a question mark b equals c] now.');
+  });
+});
+
+describe('readLinks with words that look like domains', () => {
+  it.each([
+    ['It ended here.It was fine.', 'It ended here.It was fine.'],
+    ['We use ASP.NET daily.', 'We use ASP.NET daily.'],
+    ['Built on Node.js today.', 'Built on Node.js today.'],
+    ['It ended here.it was fine.', 'It ended here.it was fine.'],
+    ['See example.it/menu today.', 'See [link to example dot it] today.'],
+  ])('reads %j as %j', (text, expected) => {
+    expect(readLinks(text, 'domain', hold)).toBe(expected);
+  });
+});
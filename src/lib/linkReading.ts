@@ -0,0 +1,103 @@
+/** How web addresses are read: "link to example dot com", or every part of the address */
+export type LinkMode = 'domain' | 'full';
+
+export const DEFAULT_LINK_MODE: LinkMode = 'domain';
+
+/** Paths with more folders than this are read from their last folder only */
+const MAX_PATH_SEGMENTS = 3;
+
+const TOP_LEVEL_DOMAINS = 'com|org|net|edu|gov|mil|int|io|dev|app|ai|info|biz|eu|uk|ca|au|fr|nl|jp|cn|ch';
+/** Domains that are also everyday words, so "here.it" is only a link with a path after it */
+const WORD_TOP_LEVEL_DOMAINS = 'it|in|us|co|de|es|se';
+const EMAIL_PATTERN = /(?<![\w.+-])[\w.+-]+@[a-z\d-]+(?:\.[a-z\d-]+)*\.[a-z]{2,}(?![\w-])/giu;
+const URL_PATH = String.raw`\/[^\s<>"'’”]*[^\s<>"'’”.,;:!?)\]]`;
+const URL_PATTERN = new RegExp(String.raw`(?<![\w@/.-])(?:(?:https?|ftp):\/\/|www\.)[^\s<>"'’”]+[^\s<>"'’”.,;:!?)\]]`, 'giu');
+/** "example.com" or "example.it/page", in lower case: "ASP.NET" and "Node.js" are names, not links */
+const DOMAIN_PATTERN = new RegExp(
+  String.raw`(?<![\w@/.-])(?:[a-z\d-]+\.)+(?:(?:${TOP_LEVEL_DOMAINS})(?:${URL_PATH})?|(?:${WORD_TOP_LEVEL_DOMAINS})${URL_PATH})(?![\w@-])`,
+  'gu'
+);
+/** Folder or file name, never ending in the full stop of a sentence */
+const PATH_SEGMENT = String.raw`[\w-](?:[\w.-]*[\w-])?`;
+/** "/usr/local/bin", "~/docs/a.txt", "C:\Users\me\report.docx", or "src/lib/app.ts" with a file extension */
+const PATH_PATTERN = new RegExp(
+  String.raw`(?<![\w/\\.:-])(?:(?:~|\.{1,2})(?:\/${PATH_SEGMENT})+|(?:\/${PATH_SEGMENT}){2,}`
+  + String.raw`|[a-z]:\\(?:${PATH_SEGMENT}\\)*${PATH_SEGMENT}|${PATH_SEGMENT}(?:\/${PATH_SEGMENT})*\/[\w-]+\.[a-z][a-z\d]{0,4})(?![\w/\\])`,
+  'giu'
+);
+
+/** Dots, underscores and dashes of a name read as the listener would say them */
+const speakName = (name: string) => name
+  .split('.')
+  .map(part => part.replace(/[_-]+/g, ' ').trim())
+  .filter(part => part.length > 0)
+  .join(' dot ');
+
+const SYMBOLS: Record<string, string> = {
+  '/': 'slash', '?': 'question mark', '=': 'equals', '&': 'and', '#': 'hash', '%': 'percent', '+': 'plus', '~': 'tilde',
+};
+
+/**
+ * Reads a web address
+ * @param url The address as written
+ * @param mode Domain only, or every part
+ * @returns The address in words, such as "link to example dot com"
+ */
+export function speakUrl(url: string, mode: LinkMode): string {
+  const withoutScheme = url.replace(/^[a-z]+:\/\//i, '').replace(/^www\./i, '');
+  const [domain] = withoutScheme.split(/[/?#]/);
+  if (mode === 'domain') return `link to ${speakName(domain.toLowerCase())}`;
+
+  return withoutScheme
+    .replace(/\/$/, '')
+    .split(/([/?=&#%+~])/)
+    .map(part => SYMBOLS[part] || speakName(part))
+    .filter(part => part.length > 0)
+    .join(' ');
+}
+
+/**
+ * Reads an email address: "jane dot doe at example dot com"
+ * @param email The address as written
+ * @returns The address in words
+ */
+export function speakEmail(email: string): string {
+  const [user, domain] = email.split('@');
+  const spokenUser = user
+    .split(/([.+])/)
+    .map(part => (part === '.' ? 'dot' : part === '+' ? 'plus' : part.replace(/_/g, ' underscore ').replace(/-/g, ' dash ')))
+    .join(' ');
+  return `${spokenUser} at ${speakName(domain.toLowerCase())}`.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reads a file path, collapsing long ones to their last folder and file
+ * @param path The path as written
+ * @returns The path in words, such as "a path ending in lib slash app dot ts"
+ */
+export function speakPath(path: string): string {
+  const segments = path.split(/[/\\]/).filter(segment => segment.length > 0 && segment !== '~');
+  const drive = /^[a-z]:$/i.test(segments[0] || '') ? segments.shift() : undefined;
+  if (segments.length > MAX_PATH_SEGMENTS) {
+    return `a path ending in ${segments.slice(-2).map(speakName).join(' slash ')}`;
+  }
+  const spoken = segments.map(speakName).join(' slash ');
+  return drive ? `${drive.charAt(0).toUpperCase()} drive ${spoken}` : spoken;
+}
+
+/**
+ * Reads email addresses, web addresses and file paths in words. Each
+ * reading is held back, so the rules for numbers and acronyms that run
+ * afterwards leave it alone.
+ * @param text Text to rewrite
+ * @param mode How web addresses are read
+ * @param hold Holds back a reading, returning the placeholder to put in its place
+ * @returns The text with placeholders for the readings
+ */
+export function readLinks(text: string, mode: LinkMode, hold: (reading: string) => string): string {
+  return text
+    .replace(EMAIL_PATTERN, email => hold(speakEmail(email)))
+    .replace(URL_PATTERN, url => hold(speakUrl(url, mode)))
+    .replace(DOMAIN_PATTERN, url => hold(speakUrl(url, mode)))
+    .replace(PATH_PATTERN, path => hold(speakPath(path)));
+}
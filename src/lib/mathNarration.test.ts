@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { TextRun } from './extractedDocument';
+import { markMath, verbalizeMath } from './mathNarration';
+import { createBlock, createLine } from './pageLayout';
+
+describe('verbalizeMath', () => {
+  it.each([
+    ['x^2 + y^2 = z^2', 'x squared plus y squared equals z squared'],
+    ['a/b', 'a over b'],
+    ['√x', 'the square root of x'],
+    ['x ≤ 5', 'x is less than or equal to 5'],
+    ['∑_{i=1}^{n} i', 'the sum from i equals 1 to n of i'],
+    ['f(x) = 2x + 1', 'f of x equals 2 x plus 1'],
+    ['α + β', 'alpha plus beta'],
+    ['x_1', 'x sub 1'],
+  ])('reads %j as %j', (expression, expected) => {
+    expect(verbalizeMath(expression)).toBe(expected);
+  });
+});
+
+/** A paragraph of one line whose runs are set in a text font */
+function paragraphOf(texts: string[]) {
+  let x = 72;
+  const runs: TextRun[] = texts.map((text) => {
+    const run = { text, x, y: 400, width: text.length * 5, height: 10, fontName: 'Body', fontSize: 10 };
+    x += run.width;
+    return run;
+  });
+  return createBlock([createLine(runs)]);
+}
+
+describe('markMath', () => {
+  it.each([
+    [['Due on ', '3/4/2021', ' at noon.'], 'Due on 3/4/2021 at noon.'],
+    [['Open ', '24/7', ' all year.'], 'Open 24/7 all year.'],
+    [['Take ', 'x + y', ' as the total.'], 'Take x plus y as the total.'],
+  ])('reads the runs %j as %j', (runs, expected) => {
+    const [block] = markMath([paragraphOf(runs)], {});
+    expect(block.kind).toBe('paragraph');
+    expect(block.text).toBe(expected);
+  });
+});
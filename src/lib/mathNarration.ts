@@ -0,0 +1,466 @@
+import {
+  joinBlockText,
+  joinPageText,
+  type ExtractedDocument,
+  type FontInfo,
+  type TextBlock,
+  type TextLine,
+  type TextRun,
+} from './extractedDocument';
+import { createLine } from './pageLayout';
+
+/** How equations are narrated: read out as words, or replaced by a short notice */
+export type MathMode = 'read' | 'omit';
+
+export const OMITTED_EQUATION = 'Equation omitted.';
+
+/** TeX, Office and STIX math fonts, and the symbol fonts equations are set in */
+const MATH_FONT_PATTERN = /^(?:CM(?:MI|MIB|SY|BSY|EX)\d|MSAM|MSBM|EU[FSR]M|RSFS|LMMath|LMSy|LMEx|Cambria ?Math|STIX|XITS|Asana|TeXGyre\w*Math|Latin ?Modern ?Math|NewCM\w*Math|Fira ?Math|Symbol|MT ?Extra|Euclid|MathematicalPi|Mathematica|(?:rtx|tx|px)(?:mi|sy|ex))/i;
+
+/** Characters that only appear in formulas */
+const MATH_SYMBOL_PATTERN = /[\p{Script=Greek}∑∏∐∫∬∭∮√∂∇∞±∓×÷·⋅∘∗=≠≈≡∼≃≅∝<>≤≥≦≧≪≫∈∉∋⊂⊃⊆⊇∪∩∀∃∄¬∧∨→←↔⇒⇐⇔↦′″−+/]/gu;
+/** Words in running text, not counting the names of functions */
+const WORD_PATTERN = /\p{L}{2,}/gu;
+/** Runs of digits, brackets and punctuation belong to whatever surrounds them */
+const NEUTRAL_PATTERN = /^[\d\s.,;:!?()[\]{}|'"’-]*$/u;
+/** Slashes between digits, as in "3/4/2021" or "24/7", are dates and ratios rather than division */
+const DIGIT_SLASH_PATTERN = /(?<=\d)\/(?=\d)/g;
+/** Glyphs of symbol fonts without a Unicode mapping */
+const PRIVATE_USE_PATTERN = /[\uE000-\uF8FF]/g;
+/** Equation numbers set at the right margin: "(3)", "(2.14a)" */
+const EQUATION_NUMBER_PATTERN = /^\(\d+(?:\.\d+)*[a-z]?\)$/;
+
+/** Blocks with more lines than this are text with formulas in it, not an equation */
+const MAX_EQUATION_LINES = 6;
+/** Words of running text an equation may contain ("for all", "if", "otherwise") */
+const MAX_EQUATION_WORDS = 3;
+
+const GREEK: Record<string, string> = {
+  α: 'alpha', β: 'beta', γ: 'gamma', δ: 'delta', ε: 'epsilon', ϵ: 'epsilon', ζ: 'zeta', η: 'eta',
+  θ: 'theta', ϑ: 'theta', ι: 'iota', κ: 'kappa', λ: 'lambda', μ: 'mu', ν: 'nu', ξ: 'xi', ο: 'omicron',
+  π: 'pi', ϖ: 'pi', ρ: 'rho', ϱ: 'rho', σ: 'sigma', ς: 'sigma', τ: 'tau', υ: 'upsilon', φ: 'phi',
+  ϕ: 'phi', χ: 'chi', ψ: 'psi', ω: 'omega',
+  Γ: 'capital gamma', Δ: 'capital delta', Θ: 'capital theta', Λ: 'capital lambda', Ξ: 'capital xi',
+  Π: 'capital pi', Σ: 'capital sigma', Υ: 'capital upsilon', Φ: 'capital phi', Ψ: 'capital psi', Ω: 'capital omega',
+};
+
+const OPERATORS: Record<string, string> = {
+  '=': 'equals', '≠': 'is not equal to', '≈': 'is approximately equal to', '≃': 'is approximately equal to',
+  '≅': 'is congruent to', '≡': 'is equivalent to', '∼': 'is similar to', '∝': 'is proportional to',
+  '<': 'is less than', '>': 'is greater than', '≤': 'is less than or equal to', '≦': 'is less than or equal to',
+  '≥': 'is greater than or equal to', '≧': 'is greater than or equal to', '≪': 'is much less than', '≫': 'is much greater than',
+  '+': 'plus', '−': 'minus', '-': 'minus', '±': 'plus or minus', '∓': 'minus or plus',
+  '×': 'times', '·': 'times', '⋅': 'times', '∗': 'times', '*': 'times', '÷': 'divided by', '/': 'over', '∘': 'composed with',
+  '∈': 'is in', '∉': 'is not in', '∋': 'contains', '⊂': 'is a subset of', '⊆': 'is a subset of or equal to',
+  '⊃': 'is a superset of', '⊇': 'is a superset of or equal to', '∪': 'union', '∩': 'intersection',
+  '∀': 'for all', '∃': 'there exists', '∄': 'there is no', '¬': 'not', '∧': 'and', '∨': 'or',
+  '→': 'goes to', '←': 'gets', '↦': 'maps to', '⇒': 'implies', '⇐': 'is implied by', '↔': 'if and only if', '⇔': 'if and only if',
+  '∞': 'infinity', '∂': 'partial', '∇': 'nabla', '°': 'degrees', '!': 'factorial', '′': 'prime', '″': 'double prime',
+  '…': 'and so on', '⋯': 'and so on', '%': 'percent', ',': ',', ';': ';', ':': 'such that',
+};
+
+const BIG_OPERATORS: Record<string, string> = {
+  '∑': 'sum', '∏': 'product', '∐': 'coproduct', '∫': 'integral', '∬': 'double integral', '∭': 'triple integral', '∮': 'contour integral',
+};
+
+const FUNCTIONS: Record<string, string> = {
+  sin: 'sine', cos: 'cosine', tan: 'tangent', cot: 'cotangent', sec: 'secant', csc: 'cosecant',
+  sinh: 'hyperbolic sine', cosh: 'hyperbolic cosine', tanh: 'hyperbolic tangent', arcsin: 'arc sine',
+  arccos: 'arc cosine', arctan: 'arc tangent', log: 'log', ln: 'natural log', lg: 'log', exp: 'exp',
+  det: 'determinant', max: 'max', min: 'min', sup: 'supremum', inf: 'infimum', arg: 'arg', mod: 'mod', gcd: 'gcd',
+};
+
+/** Letters that usually name functions, read "f of x" before a bracket */
+const FUNCTION_LETTERS = ['f', 'g', 'h', 'F', 'G', 'H', 'P', 'E'];
+
+/** Words that appear in equations as words: "for all", "if", "otherwise" */
+const WORDS = new Set(['if', 'and', 'or', 'for', 'all', 'otherwise', 'where', 'when', 'with', 'then', 'else']);
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹⁺⁻⁼⁽⁾ⁿⁱ';
+const SUPERSCRIPT_VALUES = '0123456789+−=()ni';
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉₊₋₌₍₎ₐₑₒₓᵢⱼₖₙ';
+const SUBSCRIPT_VALUES = '0123456789+−=()aeoxijkn';
+
+const isMathFontName = (fontName: string, fonts: Record<string, FontInfo>) =>
+  MATH_FONT_PATTERN.test(fonts[fontName]?.name || fontName);
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+const countWords = (text: string) => (text.match(WORD_PATTERN) || []).filter(word => !FUNCTIONS[word.toLowerCase()] && !WORDS.has(word.toLowerCase())).length;
+
+/**
+ * Rewrites Unicode super- and subscripts (x², aᵢ) as ^{} and _{} groups
+ */
+function expandScriptCharacters(expression: string): string {
+  const convert = (text: string, from: string, to: string, mark: string) => text.replace(
+    new RegExp(`[${from}]+`, 'gu'),
+    run => `${mark}{${[...run].map(char => to[[...from].indexOf(char)]).join('')}}`
+  );
+  return convert(convert(expression, SUPERSCRIPTS, SUPERSCRIPT_VALUES, '^'), SUBSCRIPTS, SUBSCRIPT_VALUES, '_');
+}
+
+/**
+ * Reads what a ^ or _ applies to: a braced group or a single character
+ * @returns The script content and the index after it
+ */
+function readScript(expression: string, index: number): [string, number] {
+  if (expression[index] !== '{') {
+    const char = [...expression.slice(index)][0] || '';
+    return [char, index + char.length];
+  }
+  let depth = 0;
+  for (let i = index; i < expression.length; i++) {
+    if (expression[i] === '{') depth++;
+    else if (expression[i] === '}' && --depth === 0) return [expression.slice(index + 1, i), i + 1];
+  }
+  return [expression.slice(index + 1), expression.length];
+}
+
+/** Whether a spoken script is one token, so it needs no "the fraction" or pause around it */
+const isSimple = (spoken: string) => !/\s/.test(spoken.trim());
+
+function speakSuperscript(spoken: string): string {
+  if (spoken === '2') return 'squared';
+  if (spoken === '3') return 'cubed';
+  if (spoken === 'T') return 'transpose';
+  if (spoken === 'minus 1') return 'inverse';
+  if (spoken === 'prime' || spoken === 'double prime') return spoken;
+  if (spoken === 'times') return 'star';
+  return `to the power of ${spoken}`;
+}
+
+/**
+ * Reads the limits written after a big operator or "lim"
+ * @returns Lower and upper limit, spoken, and the index after them
+ */
+function readLimits(expression: string, index: number): [string, string, number] {
+  let lower = '';
+  let upper = '';
+  let cursor = index;
+  while (expression[cursor] === '_' || expression[cursor] === '^') {
+    const [script, next] = readScript(expression, cursor + 1);
+    if (expression[cursor] === '_') lower = verbalizeMath(script);
+    else upper = verbalizeMath(script);
+    cursor = next;
+  }
+  return [lower, upper, cursor];
+}
+
+/**
+ * Turns a formula into words a speech engine can read, such as
+ * "x squared plus y squared equals r squared". Raised and lowered text is
+ * written ^{...} and _{...}, and stacked fractions \frac{...}{...}.
+ * Numbers are left as digits for the text normalizer.
+ * @param expression The formula as linear text
+ * @returns The formula in words, empty when nothing in it can be read
+ */
+export function verbalizeMath(expression: string): string {
+  const text = expandScriptCharacters(expression.replace(PRIVATE_USE_PATTERN, ''))
+    .normalize('NFKC')
+    .replace(/⁄/g, '/')
+    .trim()
+    .replace(/[,.;]+$/, '');
+
+  const words: string[] = [];
+  let index = 0;
+  // Whether the last word names a function, so a bracket after it reads "of"
+  let afterFunction = false;
+  const push = (value: string, isFunction = false) => {
+    words.push(value);
+    afterFunction = isFunction;
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (rest.startsWith('\\frac{')) {
+      const [numerator, afterNumerator] = readScript(text, index + 5);
+      const [denominator, next] = readScript(text, afterNumerator);
+      const [top, bottom] = [verbalizeMath(numerator), verbalizeMath(denominator)];
+      push(isSimple(top) && isSimple(bottom)
+        ? `${top} over ${bottom}`
+        : `the fraction with numerator ${top} and denominator ${bottom},`);
+      index = next;
+    } else if (char === '^' || char === '_') {
+      const [script, next] = readScript(text, index + 1);
+      const spoken = verbalizeMath(script);
+      if (spoken) push(char === '^' ? speakSuperscript(spoken) : `sub ${spoken}`, afterFunction);
+      index = next;
+    } else if (BIG_OPERATORS[char] || ((char === 'Σ' || char === 'Π') && /^[_^]/.test(text.slice(index + 1)))) {
+      const name = BIG_OPERATORS[char] || (char === 'Σ' ? 'sum' : 'product');
+      const [lower, upper, next] = readLimits(text, index + 1);
+      if (lower && upper) push(`the ${name} from ${lower} to ${upper} of`);
+      else if (lower) push(`the ${name} over ${lower} of`);
+      else push(`the ${name} of`);
+      index = next;
+    } else if (char === '√' || char === '∛') {
+      push(char === '√' ? 'the square root of' : 'the cube root of');
+      index++;
+    } else if (/\p{L}/u.test(char) && !GREEK[char]) {
+      const word = rest.match(/^\p{L}+/u)![0];
+      const lower = word.toLowerCase();
+      if (lower === 'lim') {
+        const [approach, , next] = readLimits(text, index + word.length);
+        push(approach ? `the limit as ${approach} of` : 'the limit of');
+        index = next;
+        continue;
+      }
+      if (FUNCTIONS[lower]) push(FUNCTIONS[lower], true);
+      else if (WORDS.has(lower) || word.length > 3) push(word);
+      else if (FUNCTION_LETTERS.includes(word)) push(word, true);
+      // Letters written together are separate variables: "xy" is x times y
+      else [...word].forEach(letter => push(letter));
+      index += word.length;
+    } else if (/\d/.test(char)) {
+      const number = rest.match(/^\d+(?:[.,]\d+)*/)![0];
+      push(number);
+      index += number.length;
+    } else if (char === '(') {
+      // "f(x)" is f of x; other brackets only group
+      if (afterFunction) push('of');
+      index++;
+    } else if (GREEK[char]) {
+      push(GREEK[char]);
+      index++;
+    } else if (OPERATORS[char]) {
+      push(OPERATORS[char]);
+      index++;
+    } else {
+      // Brackets, bars and anything else that can't be read
+      index++;
+    }
+  }
+
+  return words.join(' ').replace(/ (?=[,;])/g, '').replace(/,$/, '').replace(/\s+/g, ' ').trim();
+}
+
+function isScript(run: TextRun, base: TextRun): 'sup' | 'sub' | null {
+  if (run.fontSize > base.fontSize * 0.9) return null;
+  if (run.y - base.y >= base.fontSize * 0.2) return 'sup';
+  if (base.y - run.y >= base.fontSize * 0.1) return 'sub';
+  return null;
+}
+
+/**
+ * Writes runs of one line as linear text, raised and lowered runs as ^{}
+ * and _{} groups, with spaces where the gaps between runs are word breaks
+ * @param runs Runs ordered left to right
+ * @returns The formula as linear text
+ */
+function linearizeRuns(runs: TextRun[]): string {
+  let text = '';
+  let base: TextRun | null = null;
+  let open: 'sup' | 'sub' | null = null;
+  let previous: TextRun | null = null;
+
+  for (const run of runs) {
+    const script = base ? isScript(run, base) : null;
+    if (script !== open) {
+      if (open) text += '}';
+      if (script) text += script === 'sup' ? '^{' : '_{';
+      open = script;
+    } else if (previous && run.x - (previous.x + previous.width) > run.fontSize * 0.15) {
+      text += ' ';
+    }
+    text += run.text.trim();
+    if (!script) base = run;
+    previous = run;
+  }
+  if (open) text += '}';
+
+  return text;
+}
+
+/**
+ * Writes the lines of an equation block as linear text. Small lines over
+ * and under a sum or integral become its limits, and a pair of lines
+ * stacked over the middle of the main line becomes a fraction.
+ * @param lines Lines of the block
+ * @returns The formula as linear text
+ */
+function linearizeLines(lines: TextLine[]): string {
+  const sorted = lines
+    .map((line) => {
+      const last = line.runs[line.runs.length - 1];
+      return line.runs.length > 1 && EQUATION_NUMBER_PATTERN.test(last.text.trim()) ? createLine(line.runs.slice(0, -1)) : line;
+    })
+    .filter(line => !EQUATION_NUMBER_PATTERN.test(line.text.trim()))
+    .sort((a, b) => b.y - a.y);
+  if (sorted.length === 0) return '';
+
+  // The main line is the widest; the others are limits, numerators or denominators
+  const main = sorted.reduce((widest, line) => (line.width > widest.width ? line : widest), sorted[0]);
+  const overlaps = (a: { x: number; width: number }, b: { x: number; width: number }) =>
+    Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) > Math.min(a.width, b.width) * 0.5;
+
+  const runs: TextRun[] = [...main.runs];
+  const above = sorted.filter(line => line !== main && line.y > main.y);
+  const below = sorted.filter(line => line !== main && line.y < main.y);
+  const used = new Set<TextLine>();
+
+  for (const operator of main.runs.filter(run => /[∑∏∐∫∬∭∮Σ]/.test(run.text))) {
+    const upper = above.find(line => !used.has(line) && overlaps(line, operator) && line.fontSize < main.fontSize);
+    const lower = below.find(line => !used.has(line) && overlaps(line, operator) && line.fontSize < main.fontSize);
+    const limits = `${lower ? `_{${linearizeRuns(lower.runs)}}` : ''}${upper ? `^{${linearizeRuns(upper.runs)}}` : ''}`;
+    [upper, lower].forEach(line => line && used.add(line));
+    if (limits) runs[runs.indexOf(operator)] = { ...operator, text: `${operator.text.trim()}${limits}` };
+  }
+
+  for (const numerator of above.filter(line => !used.has(line))) {
+    const denominator = below.find(line => !used.has(line) && overlaps(line, numerator));
+    if (!denominator) continue;
+    used.add(numerator);
+    used.add(denominator);
+    const x = Math.min(numerator.x, denominator.x);
+    const width = Math.max(numerator.x + numerator.width, denominator.x + denominator.width) - x;
+    runs.push({
+      ...main.runs[0],
+      text: `\\frac{${linearizeRuns(numerator.runs)}}{${linearizeRuns(denominator.runs)}}`,
+      x,
+      width,
+      y: main.y,
+    });
+  }
+
+  // Left-over lines are rows of a multi-line equation, read in order around the main line
+  const rows = sorted.filter(line => line !== main && !used.has(line));
+  return [
+    ...rows.filter(line => line.y > main.y).map(line => linearizeRuns(line.runs)),
+    linearizeRuns(runs.sort((a, b) => a.x - b.x)),
+    ...rows.filter(line => line.y < main.y).map(line => linearizeRuns(line.runs)),
+  ].join(' ');
+}
+
+type RunClass = 'math' | 'neutral' | 'text';
+
+/**
+ * Sorts a run into math (math font, or symbols and single letters only),
+ * neutral (digits, brackets and punctuation, dates such as 3/4/2021) or running text
+ */
+function classifyRun(run: TextRun, fonts: Record<string, FontInfo>): RunClass {
+  if (isMathFontName(run.fontName, fonts)) return 'math';
+  const text = run.text.trim().replace(DIGIT_SLASH_PATTERN, '');
+  if (NEUTRAL_PATTERN.test(text)) return 'neutral';
+  return countMatches(text, MATH_SYMBOL_PATTERN) > 0 && countWords(text) === 0 ? 'math' : 'text';
+}
+
+/**
+ * Decides whether a block is a displayed equation: a few lines that are
+ * mostly math, by font or by symbol density, with almost no running text
+ */
+function isEquationBlock(block: TextBlock, fonts: Record<string, FontInfo>): boolean {
+  if (block.kind !== 'paragraph' || block.lines.length > MAX_EQUATION_LINES) return false;
+
+  let math = 0;
+  let text = 0;
+  let words = 0;
+  for (const run of block.lines.flatMap(line => line.runs)) {
+    const content = run.text.replace(/\s+/g, '');
+    if (isMathFontName(run.fontName, fonts)) {
+      math += content.length;
+      continue;
+    }
+    const symbols = countMatches(content.replace(DIGIT_SLASH_PATTERN, ''), MATH_SYMBOL_PATTERN);
+    math += symbols;
+    text += (content.match(WORD_PATTERN) || []).join('').length;
+    words += countWords(run.text);
+  }
+  return math > 0 && math >= text && words <= MAX_EQUATION_WORDS;
+}
+
+/**
+ * Reads the formulas inside a line of text: runs of math runs, with the
+ * scripts and neutral runs between them, are replaced by one run in words.
+ * Raised numbers after ordinary words are left for footnote detection.
+ */
+function verbalizeInlineMath(line: TextLine, fonts: Record<string, FontInfo>): TextLine {
+  const classes = line.runs.map(run => classifyRun(run, fonts));
+  if (!classes.includes('math')) return line;
+
+  const runs: TextRun[] = [];
+  let index = 0;
+  while (index < line.runs.length) {
+    if (classes[index] !== 'math') {
+      runs.push(line.runs[index]);
+      index++;
+      continue;
+    }
+    let end = index;
+    while (end + 1 < line.runs.length && classes[end + 1] !== 'text') end++;
+    // Punctuation after a formula belongs to the sentence
+    while (end > index && classes[end] === 'neutral' && !/[\d)\]]/.test(line.runs[end].text)) end--;
+
+    const span = line.runs.slice(index, end + 1);
+    const last = span[span.length - 1];
+    const spoken = verbalizeMath(linearizeRuns(span));
+    if (spoken) {
+      runs.push({
+        ...span[0],
+        text: spoken,
+        width: last.x + last.width - span[0].x,
+        y: line.y,
+        fontName: line.fontName,
+        fontSize: line.fontSize,
+      });
+    }
+    index = end + 1;
+  }
+  return runs.length > 0 ? createLine(runs) : { ...line, text: '' };
+}
+
+/**
+ * Text read for an equation block
+ * @param expression The formula as linear text
+ * @returns The formula in words, or a notice when none of it can be read
+ */
+export function announceEquation(expression: string): string {
+  const spoken = verbalizeMath(expression);
+  return spoken ? `${spoken}.` : OMITTED_EQUATION;
+}
+
+/**
+ * Finds the formulas of a page. Displayed equations become equation blocks
+ * read in words; formulas inside paragraphs are put into words in place.
+ * @param blocks Page blocks in reading order
+ * @param fonts Fonts of the document, used to recognize math fonts
+ * @returns The blocks with formulas marked and verbalized
+ */
+export function markMath(blocks: TextBlock[], fonts: Record<string, FontInfo>): TextBlock[] {
+  return blocks.map((block) => {
+    if (block.kind !== 'paragraph') return block;
+    if (isEquationBlock(block, fonts)) {
+      const expression = linearizeLines(block.lines);
+      return { ...block, kind: 'equation', math: { expression }, text: announceEquation(expression) };
+    }
+
+    const lines = block.lines.map(line => verbalizeInlineMath(line, fonts));
+    if (lines.every((line, index) => line === block.lines[index])) return block;
+    return { ...block, lines, text: lines.map(line => line.text).filter(text => text.length > 0).join(' ') };
+  });
+}
+
+/**
+ * Narrates every equation in a document the chosen way. Formulas inside
+ * paragraphs are always read, as leaving them out would break the sentence.
+ * @param document The extracted document
+ * @param mode Math narration mode
+ * @returns A copy with equation block text rewritten
+ */
+export function applyMathMode(document: ExtractedDocument, mode: MathMode): ExtractedDocument {
+  if (mode === 'read') return document;
+  const pages = document.pages.map((page) => {
+    const blocks = page.blocks.map(block => (block.kind === 'equation' ? { ...block, text: OMITTED_EQUATION } : block));
+    return { ...page, blocks, text: joinBlockText(blocks) };
+  });
+  return { ...document, pages, text: joinPageText(pages) };
+}
+
+/**
+ * Counts the displayed equations found in a document
+ * @param document The extracted document
+ * @returns Number of equation blocks
+ */
+export function countEquations(document: ExtractedDocument): number {
+  return document.pages.reduce((count, page) => count + page.blocks.filter(block => block.kind === 'equation').length, 0);
+}
@@ -0,0 +1,77 @@
+import type { AcronymEntry } from './acronymLexicon';
+import { applyCodeMode, DEFAULT_CODE_MODE, type CodeMode } from './codeBlocks';
+import type { ExtractedDocument } from './extractedDocument';
+import { applyFigureMode, type FigureMode } from './figureDetection';
+import { DEFAULT_LINK_MODE, type LinkMode } from './linkReading';
+import { applyMathMode, type MathMode } from './mathNarration';
+import { loadSetting, saveSetting } from './projectStorage';
+import type { PronunciationEntry } from './pronunciationLexicon';
+import { applyReferenceHandling, DEFAULT_REFERENCE_HANDLING, type ReferenceHandling } from './referenceHandling';
+import { applyTableMode, type TableMode } from './tableDetection';
+
+/** Choices made before conversion about how the document is read aloud */
+export interface NarrationOptions {
+  references: ReferenceHandling;
+  tables: TableMode;
+  figures: FigureMode;
+  math: MathMode;
+  code: CodeMode;
+  /** How web addresses are read; applied when the text is prepared for synthesis */
+  links: LinkMode;
+  /** Acronyms added by the user; applied when the text is prepared for synthesis */
+  acronyms: AcronymEntry[];
+  /** Pronunciations in effect for the project; applied when the text is prepared for synthesis */
+  pronunciations: PronunciationEntry[];
+}
+
+export const DEFAULT_NARRATION_OPTIONS: NarrationOptions = {
+  references: DEFAULT_REFERENCE_HANDLING,
+  tables: 'rows',
+  figures: 'announce',
+  math: 'read',
+  code: DEFAULT_CODE_MODE,
+  links: DEFAULT_LINK_MODE,
+  acronyms: [],
+  pronunciations: [],
+};
+
+/** Options remembered for each project, as they depend on the kind of document */
+export type ProjectNarrationOptions = Pick<NarrationOptions, 'code' | 'links'>;
+
+const PROJECT_STORAGE_KEY = 'narration';
+
+/**
+ * Loads the narration options saved for a project
+ * @param projectId The project
+ * @returns Saved options, with defaults for those never saved
+ */
+export function loadProjectNarration(projectId: string): ProjectNarrationOptions {
+  const saved = loadSetting<Partial<ProjectNarrationOptions>>(PROJECT_STORAGE_KEY, {}, projectId);
+  return {
+    code: saved.code ?? DEFAULT_NARRATION_OPTIONS.code,
+    links: saved.links ?? DEFAULT_NARRATION_OPTIONS.links,
+  };
+}
+
+/**
+ * Saves the narration options of a project
+ * @param options Options to keep
+ * @param projectId The project
+ */
+export function saveProjectNarration(options: ProjectNarrationOptions, projectId: string): void {
+  saveSetting(PROJECT_STORAGE_KEY, { code: options.code, links: options.links }, projectId);
+}
+
+/**
+ * Rewrites a document for listening according to the narration options
+ * @param document The extracted document
+ * @param options Narration options
+ * @returns A copy ready for speech synthesis
+ */
+export function applyNarrationOptions(document: ExtractedDocument, options: NarrationOptions): ExtractedDocument {
+  const narrated = applyCodeMode(
+    applyMathMode(applyFigureMode(applyTableMode(document, options.tables), options.figures), options.math),
+    options.code
+  );
+  return applyReferenceHandling(narrated, options.references);
+}
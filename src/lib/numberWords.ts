@@ -0,0 +1,119 @@
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+/** Numbers from here on are read digit by digit */
+const MAX_CARDINAL = 10 ** (SCALES.length * 3);
+
+export interface NumberWordOptions {
+  /** Say "and" after hundreds ("one hundred and five"), as British English does */
+  and?: boolean;
+}
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  const units = n % 10;
+  return TENS[Math.floor(n / 10)] + (units ? `-${ONES[units]}` : '');
+}
+
+function belowThousand(n: number, and: boolean): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const words: string[] = [];
+  if (hundreds) words.push(`${ONES[hundreds]} hundred`);
+  if (rest) words.push((hundreds && and ? 'and ' : '') + belowHundred(rest));
+  return words.join(' ');
+}
+
+/**
+ * Reads a digit string one digit at a time
+ * @param digits Digits such as "0123"
+ * @returns Words such as "zero one two three"
+ */
+export function digitsToWords(digits: string): string {
+  return digits.split('').filter(ch => /\d/.test(ch)).map(ch => ONES[Number(ch)]).join(' ');
+}
+
+/**
+ * Writes a whole number out in words
+ * @param n The number
+ * @param options Locale rules
+ * @returns Words such as "two thousand four hundred and six"
+ */
+export function cardinalToWords(n: number, options: NumberWordOptions = {}): string {
+  if (!Number.isFinite(n)) return String(n);
+  if (n < 0) return `minus ${cardinalToWords(-n, options)}`;
+  n = Math.floor(n);
+  if (n === 0) return 'zero';
+  if (n >= MAX_CARDINAL) return digitsToWords(String(n));
+
+  const groups: number[] = [];
+  for (let rest = n; rest > 0; rest = Math.floor(rest / 1000)) groups.push(rest % 1000);
+
+  const words: string[] = [];
+  for (let scale = groups.length - 1; scale >= 0; scale--) {
+    const group = groups[scale];
+    if (!group) continue;
+    // "one thousand and five": the last group joins with "and" when it has no hundreds
+    const joined = scale === 0 && groups.length > 1 && group < 100 && options.and;
+    words.push((joined ? 'and ' : '') + belowThousand(group, !!options.and) + (SCALES[scale] ? ` ${SCALES[scale]}` : ''));
+  }
+  return words.join(' ');
+}
+
+/**
+ * Writes a whole number out as an ordinal
+ * @param n The number
+ * @param options Locale rules
+ * @returns Words such as "twenty-first"
+ */
+export function ordinalToWords(n: number, options: NumberWordOptions = {}): string {
+  const cardinal = cardinalToWords(n, options);
+  return cardinal.replace(/[a-z]+$/, (last) => {
+    if (IRREGULAR_ORDINALS[last]) return IRREGULAR_ORDINALS[last];
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+    return `${last}th`;
+  });
+}
+
+/**
+ * Writes a decimal number out: the whole part as a number, the fraction
+ * digit by digit
+ * @param value Number text without group separators, such as "3.14" or "-0.5"
+ * @param options Locale rules
+ * @returns Words such as "three point one four"
+ */
+export function decimalToWords(value: string, options: NumberWordOptions = {}): string {
+  const negative = value.startsWith('-');
+  const [whole, fraction] = value.replace(/^[-+]/, '').split('.');
+  const words = cardinalToWords(Number(whole || '0'), options) + (fraction ? ` point ${digitsToWords(fraction)}` : '');
+  return negative ? `minus ${words}` : words;
+}
+
+/**
+ * Reads a year the way it is spoken: in pairs of digits ("nineteen
+ * eighty-four"), except for the first decade of a millennium
+ * @param year The year
+ * @param options Locale rules
+ * @returns Words such as "nineteen oh five" or "two thousand and eight"
+ */
+export function yearToWords(year: number, options: NumberWordOptions = {}): string {
+  if (year < 1000 || year > 9999 || (year % 1000 < 10)) return cardinalToWords(year, options);
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (rest === 0) return `${belowHundred(century)} hundred`;
+  return `${belowHundred(century)} ${rest < 10 ? `oh ${ONES[rest]}` : belowHundred(rest)}`;
+}
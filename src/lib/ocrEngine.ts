@@ -0,0 +1,125 @@
+import type { PDFPageProxy } from 'pdfjs-dist/types/src/display/api';
+import { createWorker, type Worker as TesseractWorker } from 'tesseract.js';
+import type { FontInfo, TextRun } from './extractedDocument';
+// Engine, WebAssembly core and English model are all bundled, so OCR never
+// downloads anything at runtime
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import tesseractSimdCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishModelUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+/** Font id given to text runs recognized by OCR */
+export const OCR_FONT_ID = 'ocr';
+
+export const OCR_FONT: FontInfo = {
+  id: OCR_FONT_ID,
+  name: 'OCR',
+  bold: false,
+  italic: false,
+  monospace: false,
+};
+
+/** Scans are rendered at about 300 dpi, which is what Tesseract is tuned for */
+const RENDER_DPI = 300;
+const MAX_RENDER_SIDE = 4200;
+
+export interface OcrPageResult {
+  runs: TextRun[];
+  /** Mean word confidence, 0-100 */
+  confidence: number;
+}
+
+export interface OcrEngine {
+  /**
+   * Renders a page and recognizes its text
+   * @param page The pdf.js page
+   * @returns Recognized words as text runs in PDF user space
+   */
+  recognizePage(page: PDFPageProxy): Promise<OcrPageResult>;
+  terminate(): Promise<void>;
+}
+
+// Smallest module using a SIMD instruction, as used by wasm-feature-detect
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+function supportsWasmSimd(): boolean {
+  try {
+    return WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    return false;
+  }
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+async function recognizePage(worker: TesseractWorker, page: PDFPageProxy): Promise<OcrPageResult> {
+  const unscaled = page.getViewport({ scale: 1 });
+  const scale = Math.min(RENDER_DPI / 72, MAX_RENDER_SIDE / Math.max(unscaled.width, unscaled.height));
+  const viewport = page.getViewport({ scale });
+
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+  if (!context) throw new Error('Canvas rendering is not available for OCR.');
+
+  // Scans are often transparent images; give them a white page to sit on
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+  canvas.width = 0;
+  canvas.height = 0;
+
+  const runs: TextRun[] = [];
+  for (const line of data.lines) {
+    const lineHeight = (line.rowAttributes?.row_height || line.bbox.y1 - line.bbox.y0) / scale;
+    for (const word of line.words) {
+      const text = word.text.trim();
+      if (!text) continue;
+      const baseline = line.baseline.has_baseline ? Math.max(line.baseline.y0, line.baseline.y1) : word.bbox.y1;
+      runs.push({
+        text,
+        x: word.bbox.x0 / scale,
+        y: unscaled.height - baseline / scale,
+        width: (word.bbox.x1 - word.bbox.x0) / scale,
+        height: (word.bbox.y1 - word.bbox.y0) / scale,
+        fontName: OCR_FONT_ID,
+        fontSize: lineHeight,
+      });
+    }
+  }
+
+  return { runs, confidence: runs.length > 0 ? data.confidence : 0 };
+}
+
+/**
+ * Starts a Tesseract worker with the bundled English model
+ * @returns An engine that recognizes pdf.js pages; terminate it when done
+ */
+export async function createOcrEngine(): Promise<OcrEngine> {
+  const response = await fetch(englishModelUrl);
+  if (!response.ok) throw new Error(`Could not load the OCR language data (${response.status}).`);
+  const englishModel = new Uint8Array(await response.arrayBuffer());
+
+  const worker = await createWorker([{ code: 'eng', data: englishModel }], undefined, {
+    workerPath: tesseractWorkerUrl,
+    // Load the worker script directly; a blob wrapper could not resolve the bundled path
+    workerBlobURL: false,
+    corePath: supportsWasmSimd() ? tesseractSimdCoreUrl : tesseractCoreUrl,
+    cacheMethod: 'none',
+    gzip: true,
+  });
+
+  return {
+    recognizePage: (page) => recognizePage(worker, page),
+    async terminate() {
+      await worker.terminate();
+    },
+  };
+}
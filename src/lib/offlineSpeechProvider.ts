@@ -0,0 +1,63 @@
+import type { TTSCostEstimate, TTSOptions, TTSProvider, TTSProviderCapabilities, TTSVoice } from './ttsProvider';
+import { audioBufferToWav } from './wavEncoder';
+
+const VOICES: (TTSVoice & { pitch: number })[] = [
+  { id: 'offline-low', name: 'Offline (low)', lang: 'en', pitch: 0.85 },
+  { id: 'offline-default', name: 'Offline (default)', lang: 'en', pitch: 1 },
+  { id: 'offline-high', name: 'Offline (high)', lang: 'en', pitch: 1.6 },
+];
+
+/**
+ * Local formant synthesizer that renders real PCM audio without any network
+ * access. The engine is split into its own chunk and loaded on first use.
+ */
+export class OfflineSpeechProvider implements TTSProvider {
+  public readonly id = 'offline';
+  public readonly name = 'Offline speech engine';
+  public readonly capabilities: TTSProviderCapabilities = {
+    requiresApiKey: false,
+    requiresNetwork: false,
+    maxChunkLength: 1000,
+    outputMimeType: 'audio/wav',
+    supportsRate: true,
+    supportsPitch: true,
+    ssml: 'none',
+  };
+
+  constructor(private readonly sampleRate: number = 22050) {}
+
+  public async listVoices(): Promise<TTSVoice[]> {
+    return VOICES.map(({ id, name, lang }) => ({ id, name, lang }));
+  }
+
+  public estimateCost(text: string): TTSCostEstimate {
+    return { characters: text.length, amount: 0, currency: 'USD' };
+  }
+
+  /**
+   * Renders text to a mono AudioBuffer
+   * @param text Text to speak
+   * @param options Rate, pitch, volume and voice
+   * @returns The rendered audio
+   */
+  public async renderToAudioBuffer(text: string, options: TTSOptions = {}): Promise<AudioBuffer> {
+    const { renderSpeech } = await import('./formantSynthesizer');
+    const voice = VOICES.find(v => v.id === options.voiceId) || VOICES[1];
+
+    const { samples, sampleRate } = renderSpeech(text, {
+      sampleRate: this.sampleRate,
+      rate: options.rate || 1,
+      pitch: (options.pitch || 1) * voice.pitch,
+      volume: options.volume ?? 1,
+    });
+
+    const buffer = new AudioBuffer({ length: Math.max(samples.length, 1), numberOfChannels: 1, sampleRate });
+    buffer.copyToChannel(samples, 0);
+    return buffer;
+  }
+
+  public async synthesize(text: string, options: TTSOptions): Promise<Blob> {
+    const buffer = await this.renderToAudioBuffer(text, options);
+    return new Blob([audioBufferToWav(buffer)], { type: 'audio/wav' });
+  }
+}
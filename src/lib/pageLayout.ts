@@ -0,0 +1,278 @@
+import type { TextBlock, TextLine, TextRun } from './extractedDocument';
+import { detectTables, insertTables } from './tableDetection';
+
+/**
+ * Joins the runs of one line, inserting a space only where the gap between
+ * runs is wide enough to be a word break
+ * @param runs Runs ordered left to right
+ * @returns The line text
+ */
+export function joinRuns(runs: TextRun[]): string {
+  let text = '';
+  let previous: TextRun | null = null;
+
+  for (const run of runs) {
+    if (previous) {
+      const gap = run.x - (previous.x + previous.width);
+      const needsSpace = gap > run.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(run.text);
+      if (needsSpace) text += ' ';
+    }
+    text += run.text;
+    previous = run;
+  }
+
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function mostCommon<T>(values: T[], weight: (value: T) => number = () => 1): T | undefined {
+  const totals = new Map<T, number>();
+  for (const value of values) {
+    totals.set(value, (totals.get(value) || 0) + weight(value));
+  }
+  let best: T | undefined;
+  let bestTotal = -1;
+  totals.forEach((total, value) => {
+    if (total > bestTotal) {
+      best = value;
+      bestTotal = total;
+    }
+  });
+  return best;
+}
+
+/**
+ * Builds a line from runs that share a baseline
+ * @param runs Runs on the line
+ * @returns The line with its bounding box and dominant font
+ */
+export function createLine(runs: TextRun[]): TextLine {
+  const sorted = [...runs].sort((a, b) => a.x - b.x);
+  const x = Math.min(...sorted.map(run => run.x));
+  const right = Math.max(...sorted.map(run => run.x + run.width));
+  const longest = sorted.reduce((best, run) => (run.text.length > best.text.length ? run : best), sorted[0]);
+
+  return {
+    text: joinRuns(sorted),
+    runs: sorted,
+    x,
+    y: Math.min(...sorted.map(run => run.y)),
+    width: right - x,
+    height: Math.max(...sorted.map(run => run.height)),
+    fontSize: mostCommon(sorted.map(run => Math.round(run.fontSize * 10) / 10), size => size) ?? longest.fontSize,
+    fontName: longest.fontName,
+  };
+}
+
+/**
+ * Builds a block from consecutive lines
+ * @param lines Lines in reading order
+ * @returns The block with its bounding box
+ */
+export function createBlock(lines: TextLine[]): TextBlock {
+  const x = Math.min(...lines.map(line => line.x));
+  const right = Math.max(...lines.map(line => line.x + line.width));
+  const bottom = Math.min(...lines.map(line => line.y));
+  const top = Math.max(...lines.map(line => line.y + line.height));
+
+  return {
+    kind: 'paragraph',
+    text: lines.map(line => line.text).filter(text => text.length > 0).join(' '),
+    lines,
+    x,
+    y: bottom,
+    width: right - x,
+    height: top - bottom,
+  };
+}
+
+export interface ColumnBounds {
+  left: number;
+  right: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Groups runs into lines by baseline, then splits each row wherever the
+ * horizontal gap is too wide to be a word space (a column gutter)
+ * @param runs Text runs of a page in any order
+ * @returns Line segments, top to bottom and left to right
+ */
+export function groupRunsIntoLines(runs: TextRun[]): TextLine[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: TextRun[][] = [];
+
+  for (const run of sorted) {
+    const row = rows[rows.length - 1];
+    // Tolerance is generous enough to keep superscripts on their line
+    if (row && Math.abs(row[0].y - run.y) <= Math.max(row[0].fontSize, run.fontSize) * 0.5) {
+      row.push(run);
+    } else {
+      rows.push([run]);
+    }
+  }
+
+  const lines: TextLine[] = [];
+  for (const row of rows) {
+    row.sort((a, b) => a.x - b.x);
+    let segment: TextRun[] = [];
+    for (const run of row) {
+      const last = segment[segment.length - 1];
+      if (last) {
+        const gap = run.x - (last.x + last.width);
+        if (gap > Math.max(last.fontSize, run.fontSize)) {
+          lines.push(createLine(segment));
+          segment = [];
+        }
+      }
+      segment.push(run);
+    }
+    if (segment.length > 0) lines.push(createLine(segment));
+  }
+
+  return lines.filter(line => line.text.length > 0);
+}
+
+/**
+ * Finds text columns as the spans between vertical gutters. A gutter is a
+ * band that almost no line crosses and that has lines on both sides, so a
+ * title or footer spanning the columns does not hide the gutter.
+ * @param lines Line segments of a page
+ * @returns Column bounds from left to right (one column when none are found)
+ */
+export function detectColumns(lines: TextLine[]): ColumnBounds[] {
+  if (lines.length === 0) return [];
+
+  const left = Math.min(...lines.map(line => line.x));
+  const right = Math.max(...lines.map(line => line.x + line.width));
+  const bodySize = median(lines.map(line => line.fontSize)) || 10;
+  const allowedCrossings = Math.max(2, Math.floor(lines.length * 0.1));
+  const minGutterWidth = Math.max(4, bodySize * 0.6);
+  const minLinesPerSide = 3;
+
+  const crossings = (x: number) => lines.filter(line => line.x < x && line.x + line.width > x).length;
+
+  // Sweep the content width for bands that are (almost) free of text
+  const gutters: ColumnBounds[] = [];
+  let gutterStart: number | null = null;
+  for (let x = Math.floor(left) + 1; x < right; x++) {
+    const open = crossings(x) <= allowedCrossings;
+    if (open && gutterStart === null) gutterStart = x;
+    if ((!open || x + 1 >= right) && gutterStart !== null) {
+      const gutter = { left: gutterStart, right: x };
+      gutterStart = null;
+      if (gutter.right - gutter.left < minGutterWidth) continue;
+
+      const leftSide = lines.filter(line => line.x + line.width <= gutter.left + 1).length;
+      const rightSide = lines.filter(line => line.x >= gutter.right - 1).length;
+      if (leftSide >= minLinesPerSide && rightSide >= minLinesPerSide) gutters.push(gutter);
+    }
+  }
+
+  const columns: ColumnBounds[] = [];
+  let columnLeft = left;
+  for (const gutter of gutters) {
+    columns.push({ left: columnLeft, right: gutter.left });
+    columnLeft = gutter.right;
+  }
+  columns.push({ left: columnLeft, right });
+  return columns;
+}
+
+function columnOf(line: TextLine, columns: ColumnBounds[]): number {
+  const index = columns.findIndex(column => line.x >= column.left - 1 && line.x + line.width <= column.right + 1);
+  return index;
+}
+
+/**
+ * Orders line segments the way a person reads the page: lines that span
+ * several columns (titles, footers) split the page into horizontal bands,
+ * and inside each band every column is read top to bottom before the next
+ * @param lines Line segments of a page
+ * @param columns Column bounds from detectColumns
+ * @returns Lines grouped per column run, in reading order
+ */
+export function orderLinesByColumns(lines: TextLine[], columns: ColumnBounds[]): TextLine[][] {
+  const byTop = [...lines].sort((a, b) => b.y - a.y || a.x - b.x);
+  if (columns.length <= 1) return [byTop];
+
+  const groups: TextLine[][] = [];
+  let band: TextLine[][] = columns.map(() => []);
+
+  const flushBand = () => {
+    for (const column of band) {
+      if (column.length > 0) groups.push(column);
+    }
+    band = columns.map(() => []);
+  };
+
+  for (const line of byTop) {
+    const column = columnOf(line, columns);
+    if (column === -1) {
+      flushBand();
+      groups.push([line]);
+    } else {
+      band[column].push(line);
+    }
+  }
+  flushBand();
+
+  return groups;
+}
+
+function startsNewParagraph(previous: TextLine, line: TextLine, columnLeft: number, columnWidth: number): boolean {
+  const gap = previous.y - (line.y + line.height);
+  const sameSize = Math.abs(line.fontSize - previous.fontSize) <= Math.max(line.fontSize, previous.fontSize) * 0.15;
+  if (gap > previous.height * 0.8 || gap < -previous.height * 2 || !sameSize) return true;
+
+  // First-line indent after a line that reached the margin
+  const indented = line.x - columnLeft > line.fontSize * 0.8 && previous.x - columnLeft <= line.fontSize * 0.3;
+  if (indented) return true;
+
+  // A short line ending a sentence closes its paragraph
+  const shortPrevious = previous.width < columnWidth * 0.7;
+  return shortPrevious && /[.!?:]["')\]]?$/.test(previous.text);
+}
+
+/**
+ * Groups lines of one column run into paragraph blocks using vertical
+ * spacing, font size, first-line indents and short closing lines
+ * @param lines Lines in reading order
+ * @returns Paragraph blocks
+ */
+export function groupLinesIntoBlocks(lines: TextLine[]): TextBlock[] {
+  if (lines.length === 0) return [];
+
+  const columnLeft = Math.min(...lines.map(line => line.x));
+  const columnWidth = Math.max(...lines.map(line => line.x + line.width)) - columnLeft;
+  const blocks: TextBlock[] = [];
+  let current: TextLine[] = [];
+
+  for (const line of lines) {
+    const last = current[current.length - 1];
+    if (last && startsNewParagraph(last, line, columnLeft, columnWidth)) {
+      blocks.push(createBlock(current));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length > 0) blocks.push(createBlock(current));
+
+  return blocks;
+}
+
+/**
+ * Reconstructs the reading order of a page from run positions. Tables are
+ * taken out first, so their cells are not mistaken for text columns.
+ * @param runs Text runs of a page
+ * @returns Paragraph and table blocks in reading order
+ */
+export function layoutPage(runs: TextRun[]): TextBlock[] {
+  const { tables, lines } = detectTables(groupRunsIntoLines(runs));
+  const columns = detectColumns(lines);
+  return insertTables(orderLinesByColumns(lines, columns).flatMap(groupLinesIntoBlocks), tables);
+}
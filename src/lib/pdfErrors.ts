@@ -0,0 +1,50 @@
+/**
+ * Errors raised while opening a PDF, so the UI can react to each case:
+ * ask for a password, or explain why the file cannot be read.
+ */
+
+/** The PDF is encrypted with a user password */
+export class PdfPasswordError extends Error {
+  /** True when a password was given but did not open the file */
+  readonly incorrect: boolean;
+
+  constructor(incorrect: boolean) {
+    super(incorrect
+      ? 'The password is incorrect. Please try again.'
+      : 'This PDF is password-protected. Enter its password to continue.');
+    this.name = 'PdfPasswordError';
+    this.incorrect = incorrect;
+  }
+}
+
+/** The PDF uses an encryption scheme pdf.js cannot decrypt */
+export class PdfUnsupportedEncryptionError extends Error {
+  /** pdf.js error message naming the unsupported method */
+  readonly detail?: string;
+
+  constructor(detail?: string) {
+    super(`This PDF uses an encryption method that is not supported${detail ? ` (${detail})` : ''}. Try saving an unencrypted copy first.`);
+    this.name = 'PdfUnsupportedEncryptionError';
+    this.detail = detail;
+  }
+}
+
+/** The PDF's permissions forbid copying or extracting its text */
+export class PdfPermissionError extends Error {
+  constructor() {
+    super('The author of this PDF does not permit text extraction, not even for accessibility tools.');
+    this.name = 'PdfPermissionError';
+  }
+}
+
+/**
+ * Checks whether an error should reach the user as is instead of being
+ * replaced by the generic extraction failure
+ * @param error The caught error
+ * @returns True for the PDF access errors above
+ */
+export function isPdfAccessError(error: unknown): error is PdfPasswordError | PdfUnsupportedEncryptionError | PdfPermissionError {
+  return error instanceof PdfPasswordError
+    || error instanceof PdfUnsupportedEncryptionError
+    || error instanceof PdfPermissionError;
+}
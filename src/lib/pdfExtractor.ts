@@ -1,30 +1,376 @@
 // src/lib/pdfExtractor.ts
-export async function extractTextFromPDF(file: File): Promise<string> {
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      
-      // Use PDF.js library which works in browsers
+import type { PDFDocumentProxy, PDFPageProxy, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { joinBlockText, joinPageText, type ExtractedDocument, type ExtractedPage, type FontInfo, type OutlineEntry, type TextRun } from './extractedDocument';
+import { layoutPage } from './pageLayout';
+import { findImageRegions, markFigures } from './figureDetection';
+import { markMath } from './mathNarration';
+import { markCode } from './codeBlocks';
+import { removeBoilerplate } from './boilerplateRemoval';
+import { markHeadings } from './chapterDetection';
+import { findCitedAuthors, markFootnotes } from './referenceHandling';
+import type { OcrEngine } from './ocrEngine';
+import { isPdfAccessError, PdfPasswordError, PdfPermissionError, PdfUnsupportedEncryptionError } from './pdfErrors';
+import { loadWordList, repairDocument } from './textRepair';
+// Bundled by Vite from the installed pdfjs-dist, so the worker always matches the library version
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfjsPromise: Promise<PdfJs> | null = null;
+
+/**
+ * Runs the pdf.js worker code on the main thread. pdf.js picks this
+ * "fake worker" up automatically whenever a real Worker cannot be started.
+ */
+async function installMainThreadWorker(): Promise<void> {
+  const workerModule = await import('pdfjs-dist/build/pdf.worker.js');
+  (globalThis as typeof globalThis & { pdfjsWorker?: unknown }).pdfjsWorker = workerModule;
+}
+
+/**
+ * Starts the pdf.js worker and waits for its "ready" message. A worker
+ * whose script fails to load still constructs fine and only reports the
+ * failure later through an error event.
+ * @returns The running worker
+ */
+function startWorker(): Promise<Worker> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(pdfWorkerUrl);
+    const settle = () => {
+      worker.removeEventListener('message', onMessage);
+      worker.removeEventListener('error', onError);
+    };
+    const onMessage = () => {
+      settle();
+      resolve(worker);
+    };
+    const onError = (event: ErrorEvent) => {
+      settle();
+      worker.terminate();
+      reject(new Error(event.message || 'The pdf.js worker script failed to load.'));
+    };
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('error', onError);
+  });
+}
+
+/**
+ * Loads pdf.js configured with the self-hosted worker, so extraction never
+ * reaches out to a CDN and keeps working in air-gapped deployments.
+ * @returns The pdf.js module
+ */
+export function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = (async () => {
       const pdfjsLib = await import('pdfjs-dist');
-      
-      // Set worker source
-      pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js`;
-      
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      let fullText = '';
-      
-      // Extract text from each page
-      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-        const page = await pdf.getPage(pageNum);
-        const textContent = await page.getTextContent();
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ');
-        fullText += pageText + ' ';
+      pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+      try {
+        pdfjsLib.GlobalWorkerOptions.workerPort = await startWorker();
+      } catch (error) {
+        // No Worker support, a content security policy forbids it, or its script failed to load
+        pdfjsLib.GlobalWorkerOptions.workerPort = null;
+        console.warn('pdf.js worker unavailable, extracting on the main thread:', error);
+        await installMainThreadWorker();
       }
-      
-      return fullText.trim();
+      return pdfjsLib;
+    })();
+  }
+  return pdfjsPromise;
+}
+
+/**
+ * Canvas factory for pdf.js when there is no DOM, as inside a Web Worker.
+ * pdf.js creates scratch canvases while rendering pages for OCR.
+ */
+const offscreenCanvasFactory = {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset(canvasAndContext: { canvas: OffscreenCanvas }, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  },
+  destroy(canvasAndContext: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  },
+};
+
+const UNSUPPORTED_ENCRYPTION_PATTERN = /unknown encryption method|unsupported encryption|unknown crypto method|crypt filter/i;
+
+/**
+ * Opens a PDF with pdf.js, turning password and encryption failures into
+ * the errors from pdfErrors
+ * @param data The PDF bytes; pdf.js takes ownership of the buffer
+ * @param password User password for encrypted files
+ * @returns The opened pdf.js document
+ */
+export async function openPdf(data: ArrayBuffer, password?: string): Promise<PDFDocumentProxy> {
+  const pdfjsLib = await loadPdfJs();
+  try {
+    return await pdfjsLib.getDocument({
+      data,
+      password,
+      fontExtraProperties: true,
+      disableFontFace: true,
+      canvasFactory: typeof document === 'undefined' ? offscreenCanvasFactory : undefined,
+    }).promise;
+  } catch (error) {
+    // pdf.js rebuilds worker errors on this side, so match PasswordException by name
+    const { name, code } = (error || {}) as { name?: string; code?: number };
+    if (name === 'PasswordException') {
+      throw new PdfPasswordError(code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (UNSUPPORTED_ENCRYPTION_PATTERN.test(message)) {
+      throw new PdfUnsupportedEncryptionError(message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks the document permissions. Copying for accessibility alone is
+ * enough, since reading text aloud is an accessibility use.
+ */
+async function assertTextExtractionAllowed(pdf: PDFDocumentProxy): Promise<void> {
+  const { PermissionFlag } = await loadPdfJs();
+  const permissions = await pdf.getPermissions();
+  if (permissions && !permissions.includes(PermissionFlag.COPY) && !permissions.includes(PermissionFlag.COPY_FOR_ACCESSIBILITY)) {
+    throw new PdfPermissionError();
+  }
+}
+
+export interface ExtractionProgress {
+  /** Reading the text layer, recognizing a scanned page, or analyzing the layout of the whole document */
+  stage: 'reading' | 'recognizing' | 'analyzing';
+  /** 1-based page being processed */
+  page: number;
+  pageCount: number;
+}
+
+export interface ExtractionOptions {
+  fileName?: string;
+  /** Password for encrypted PDFs */
+  password?: string;
+  /** Keep running heads, footers, page numbers and watermarks (default: false) */
+  keepBoilerplate?: boolean;
+  /** Recognize pages without a text layer with OCR (default: true) */
+  ocr?: boolean;
+  /** Called as each page is processed */
+  onProgress?: (progress: ExtractionProgress) => void;
+  /** Stops extraction between pages */
+  signal?: AbortSignal;
+}
+
+function toTextRun(item: TextItem): TextRun {
+  const [a, b, c, d, e, f] = item.transform;
+  const fontSize = Math.hypot(c, d) || Math.hypot(a, b) || item.height;
+  return {
+    text: item.str,
+    x: e,
+    y: f,
+    width: item.width,
+    height: item.height || fontSize,
+    fontName: item.fontName,
+    fontSize,
+  };
+}
+
+function readFontInfo(page: PDFPageProxy, fontId: string): FontInfo {
+  const font: { name?: string; bold?: boolean; black?: boolean; italic?: boolean; isMonospace?: boolean } =
+    page.commonObjs.has(fontId) ? page.commonObjs.get(fontId) : {};
+  const name = (font.name || fontId).replace(/^[A-Z]{6}\+/, '');
+  return {
+    id: fontId,
+    name,
+    bold: !!(font.bold || font.black) || /bold|black|heavy|semibold/i.test(name),
+    italic: !!font.italic || /italic|oblique/i.test(name),
+    monospace: !!font.isMonospace || /mono|courier|consol/i.test(name),
+  };
+}
+
+async function extractPage(
+  page: PDFPageProxy,
+  fonts: Record<string, FontInfo>,
+  getOcrEngine: (() => Promise<OcrEngine>) | null,
+  onRecognize?: () => void
+): Promise<ExtractedPage> {
+  const viewport = page.getViewport({ scale: 1 });
+  const textContent = await page.getTextContent();
+  let runs = textContent.items
+    // Whitespace items only bridge gaps; spacing is rebuilt from positions in pageLayout
+    .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+    .map(toTextRun);
+
+  // Scanned pages have no text layer, so read the rendered page instead
+  let ocrConfidence: number | undefined;
+  if (runs.length === 0 && getOcrEngine) {
+    try {
+      onRecognize?.();
+      const { OCR_FONT } = await import('./ocrEngine');
+      const result = await (await getOcrEngine()).recognizePage(page);
+      runs = result.runs;
+      ocrConfidence = result.confidence;
+      fonts[OCR_FONT.id] = OCR_FONT;
     } catch (error) {
-      console.error('Error extracting text from PDF:', error);
-      throw new Error('Failed to extract text from PDF. Please make sure it\'s a valid PDF file with readable text.');
+      // A failed OCR leaves the page empty rather than failing the document
+      console.warn(`OCR failed on page ${page.pageNumber}:`, error);
+    }
+  }
+
+  // Resolving the operator list also loads the page's fonts into commonObjs
+  const { OPS } = await loadPdfJs();
+  const operatorList = await page.getOperatorList();
+  for (const fontId of new Set(runs.map(run => run.fontName))) {
+    fonts[fontId] ??= readFontInfo(page, fontId);
+  }
+
+  const images = findImageRegions(operatorList, OPS, viewport.width, viewport.height);
+  // Code goes first, so its operators are not taken for equations
+  const blocks = markMath(markCode(markFigures(layoutPage(runs), images, viewport.width, viewport.height), fonts), fonts);
+  return {
+    pageNumber: page.pageNumber,
+    width: viewport.width,
+    height: viewport.height,
+    blocks,
+    text: joinBlockText(blocks),
+    ocrConfidence,
+  };
+}
+
+type RawOutlineItem = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+async function resolveOutlinePage(pdf: PDFDocumentProxy, dest: RawOutlineItem['dest']): Promise<number | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (target === undefined || target === null) return null;
+    const pageIndex = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return pageIndex + 1;
+  } catch {
+    return null;
+  }
+}
+
+async function readOutline(pdf: PDFDocumentProxy): Promise<OutlineEntry[]> {
+  const convert = async (items: RawOutlineItem[]): Promise<OutlineEntry[]> =>
+    Promise.all(items.map(async item => ({
+      title: item.title,
+      pageNumber: await resolveOutlinePage(pdf, item.dest),
+      children: await convert(item.items || []),
+    })));
+
+  const outline = await pdf.getOutline().catch(() => null);
+  return outline ? convert(outline) : [];
+}
+
+function toExtractionError(error: unknown, signal?: AbortSignal): unknown {
+  if (isPdfAccessError(error) || signal?.aborted) return error;
+  console.error('Error extracting text from PDF:', error);
+  return new Error('Failed to extract text from PDF. Please make sure it\'s a valid PDF file with readable text.');
+}
+
+/**
+ * Reads the pages of an open PDF one at a time, running OCR on pages
+ * without a text layer
+ * @param pdf The opened document
+ * @param fonts Font table, filled in as pages are read
+ * @param options Extraction options
+ */
+async function* readPages(pdf: PDFDocumentProxy, fonts: Record<string, FontInfo>, options: ExtractionOptions): AsyncGenerator<ExtractedPage> {
+  const { onProgress, signal } = options;
+
+  // The OCR engine is large, so it is only loaded once a page needs it
+  let ocrEngine: Promise<OcrEngine> | null = null;
+  const getOcrEngine = options.ocr === false ? null : () => {
+    ocrEngine ??= import('./ocrEngine').then(({ createOcrEngine }) => createOcrEngine());
+    return ocrEngine;
+  };
+
+  try {
+    const pageCount = pdf.numPages;
+    for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
+      signal?.throwIfAborted();
+      onProgress?.({ stage: 'reading', page: pageNum, pageCount });
+      const page = await pdf.getPage(pageNum);
+      const extracted = await extractPage(page, fonts, getOcrEngine, () => onProgress?.({ stage: 'recognizing', page: pageNum, pageCount }));
+      page.cleanup();
+      yield extracted;
+    }
+  } finally {
+    if (ocrEngine) await ocrEngine.then(engine => engine.terminate(), () => undefined);
+  }
+}
+
+/**
+ * Extracts the structured content of a PDF: pages, blocks, lines, runs
+ * with positions, and the fonts they use
+ * @param source The PDF file or its bytes
+ * @param options Extraction options
+ * @returns The extracted document
+ */
+export async function extractDocument(source: File | ArrayBuffer, options: ExtractionOptions = {}): Promise<ExtractedDocument> {
+  const { onProgress, signal } = options;
+  try {
+    signal?.throwIfAborted();
+    const data = source instanceof ArrayBuffer ? source : await source.arrayBuffer();
+    const fileName = options.fileName || (source instanceof ArrayBuffer ? 'document.pdf' : source.name);
+
+    const pdf = await openPdf(data, options.password);
+
+    const fonts: Record<string, FontInfo> = {};
+    const pages: ExtractedPage[] = [];
+    let outline: OutlineEntry[];
+    let info: { Title?: string; Author?: string };
+    try {
+      await assertTextExtractionAllowed(pdf);
+      for await (const page of readPages(pdf, fonts, options)) {
+        pages.push(page);
+      }
+
+      onProgress?.({ stage: 'analyzing', page: pdf.numPages, pageCount: pdf.numPages });
+      outline = await readOutline(pdf);
+      const metadata = await pdf.getMetadata().catch(() => null);
+      info = (metadata?.info || {}) as { Title?: string; Author?: string };
+    } finally {
+      await pdf.destroy();
     }
-  }
\ No newline at end of file
+
+    const document: ExtractedDocument = {
+      fileName,
+      title: info.Title || undefined,
+      author: info.Author || undefined,
+      pageCount: pages.length,
+      pages,
+      fonts,
+      outline,
+      text: joinPageText(pages),
+      removedText: [],
+      citedAuthors: [],
+    };
+    // Repair after boilerplate removal and footnote marking, which rebuild the text of blocks they change
+    const words = await loadWordList();
+    const cleaned = markFootnotes(options.keepBoilerplate ? document : removeBoilerplate(document));
+    const marked = markHeadings(repairDocument(cleaned, words));
+    return { ...marked, citedAuthors: findCitedAuthors(marked) };
+  } catch (error) {
+    throw toExtractionError(error, signal);
+  }
+}
+
+/**
+ * Extracts the narration text of a PDF
+ * @param file The PDF file
+ * @param password Password for encrypted PDFs
+ * @returns Plain text with pages and paragraphs separated by blank lines
+ */
+export async function extractTextFromPDF(file: File, password?: string): Promise<string> {
+  return (await extractDocument(file, { password })).text;
+}
@@ -0,0 +1,44 @@
+import { openPdf } from './pdfExtractor';
+
+export interface PdfPreview {
+  pageCount: number;
+  /**
+   * Renders one page as a PNG data URL
+   * @param pageNumber 1-based page number
+   * @param width Thumbnail width in CSS pixels
+   */
+  renderThumbnail(pageNumber: number, width: number): Promise<string>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Opens a PDF for rendering page thumbnails
+ * @param file The PDF file
+ * @param password Password for encrypted PDFs
+ * @returns A preview handle; call destroy when done
+ */
+export async function openPdfPreview(file: File, password?: string): Promise<PdfPreview> {
+  const pdf = await openPdf(await file.arrayBuffer(), password);
+
+  return {
+    pageCount: pdf.numPages,
+    async renderThumbnail(pageNumber: number, width: number): Promise<string> {
+      const page = await pdf.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: (width * (window.devicePixelRatio || 1)) / unscaled.width });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas rendering is not available.');
+
+      await page.render({ canvasContext: context, viewport }).promise;
+      page.cleanup();
+      return canvas.toDataURL('image/png');
+    },
+    async destroy() {
+      await pdf.destroy();
+    },
+  };
+}
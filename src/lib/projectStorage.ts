@@ -0,0 +1,44 @@
+const STORAGE_PREFIX = 'pdf-speak-out';
+
+/**
+ * Identifies the project a PDF belongs to, so settings made for a document
+ * come back when the same file is opened again
+ * @param file The PDF file
+ * @returns A stable id built from the file name and size
+ */
+export function getProjectId(file: File): string {
+  return `${file.name}:${file.size}`;
+}
+
+const storageKey = (key: string, projectId?: string) =>
+  (projectId ? `${STORAGE_PREFIX}:project:${projectId}:${key}` : `${STORAGE_PREFIX}:${key}`);
+
+/**
+ * Loads a saved setting
+ * @param key Setting name
+ * @param fallback Value used when nothing was saved or storage is unavailable
+ * @param projectId Project the setting belongs to; omit for settings shared by all projects
+ * @returns The saved value, or the fallback
+ */
+export function loadSetting<T>(key: string, fallback: T, projectId?: string): T {
+  try {
+    const saved = localStorage.getItem(storageKey(key, projectId));
+    return saved === null ? fallback : JSON.parse(saved);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Saves a setting
+ * @param key Setting name
+ * @param value Value to keep, serializable as JSON
+ * @param projectId Project the setting belongs to; omit for settings shared by all projects
+ */
+export function saveSetting<T>(key: string, value: T, projectId?: string): void {
+  try {
+    localStorage.setItem(storageKey(key, projectId), JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}:`, error);
+  }
+}
@@ -0,0 +1,202 @@
+import { loadSetting, saveSetting } from './projectStorage';
+import type { Placeholders } from './textPlaceholders';
+import type { SsmlSupport } from './ttsProvider';
+
+/** Phonetic alphabets accepted in PLS files and SSML <phoneme> tags */
+export type PhonemeAlphabet = 'ipa' | 'x-sampa';
+
+export interface PronunciationEntry {
+  /** Word or name as written, matched regardless of case */
+  term: string;
+  /** Plain-text spelling every engine reads correctly, such as "kwin-OH-uh" */
+  respelling?: string;
+  /** Phonetic transcription, used by engines that accept SSML */
+  phoneme?: string;
+  alphabet?: PhonemeAlphabet;
+}
+
+/** Pronunciations shared by all documents, and the overrides of one project */
+export interface PronunciationLexicon {
+  shared: PronunciationEntry[];
+  project: PronunciationEntry[];
+}
+
+const STORAGE_KEY = 'pronunciations';
+const PLS_NAMESPACE = 'http://www.w3.org/2005/01/pronunciation-lexicon';
+const PHONEME_ALPHABETS: PhonemeAlphabet[] = ['ipa', 'x-sampa'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const isEntry = (entry: unknown): entry is PronunciationEntry =>
+  typeof (entry as PronunciationEntry)?.term === 'string' && (entry as PronunciationEntry).term.trim().length > 0;
+
+/**
+ * Escapes text for use in XML content and attribute values
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Loads the saved pronunciations for a project
+ * @param projectId Project whose overrides are loaded
+ * @returns Shared entries and the project's overrides
+ */
+export function loadPronunciationLexicon(projectId: string): PronunciationLexicon {
+  const read = (saved: unknown) => (Array.isArray(saved) ? saved.filter(isEntry) : []);
+  return {
+    shared: read(loadSetting<unknown>(STORAGE_KEY, [])),
+    project: read(loadSetting<unknown>(STORAGE_KEY, [], projectId)),
+  };
+}
+
+/**
+ * Saves the pronunciations of a project
+ * @param lexicon Shared entries and the project's overrides
+ * @param projectId Project the overrides belong to
+ */
+export function savePronunciationLexicon(lexicon: PronunciationLexicon, projectId: string): void {
+  saveSetting(STORAGE_KEY, lexicon.shared);
+  saveSetting(STORAGE_KEY, lexicon.project, projectId);
+}
+
+/**
+ * Adds entries to a list, replacing those with the same term
+ * @param entries Existing entries
+ * @param added Entries to add
+ * @returns The combined entries
+ */
+export function upsertPronunciations(entries: PronunciationEntry[], added: PronunciationEntry[]): PronunciationEntry[] {
+  const addedTerms = new Set(added.map(entry => entry.term.toLowerCase()));
+  return [...entries.filter(entry => !addedTerms.has(entry.term.toLowerCase())), ...added];
+}
+
+/**
+ * Combines shared entries with a project's overrides
+ * @param lexicon Shared entries and the project's overrides
+ * @returns The entries in effect for the project
+ */
+export function resolvePronunciations(lexicon: PronunciationLexicon): PronunciationEntry[] {
+  return upsertPronunciations(lexicon.shared, lexicon.project);
+}
+
+interface CompiledLexicon {
+  entries: Map<string, PronunciationEntry>;
+  pattern: RegExp | null;
+}
+
+let cachedLexicon: { entries: PronunciationEntry[]; compiled: CompiledLexicon } | null = null;
+
+function compile(entries: PronunciationEntry[]): CompiledLexicon {
+  if (cachedLexicon?.entries === entries) return cachedLexicon.compiled;
+
+  const byTerm = new Map(entries.filter(isEntry).map(entry => [entry.term.trim().toLowerCase(), entry]));
+  const terms = [...byTerm.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const compiled = {
+    entries: byTerm,
+    pattern: terms.length > 0 ? new RegExp(`(?<![\\p{L}\\d])(?:${terms.join('|')})(?![\\p{L}\\d])`, 'giu') : null,
+  };
+  cachedLexicon = { entries, compiled };
+  return compiled;
+}
+
+/**
+ * Reads the terms of the lexicon the way the entries say. Replacements are
+ * held back as placeholders, so number and acronym rules leave them alone
+ * until the rest of preprocessing is done.
+ * @param text Text to rewrite
+ * @param entries Pronunciation entries in effect
+ * @param placeholders Placeholders of the text being preprocessed
+ * @param ssml Markup the engine takes: terms become <phoneme> or <sub> in full
+ *   SSML, <phoneme> where only phonemes are read, and respellings otherwise
+ * @returns Text with placeholders for the terms
+ */
+export function applyPronunciations(
+  text: string,
+  entries: PronunciationEntry[],
+  placeholders: Placeholders,
+  ssml: SsmlSupport = 'none'
+): string {
+  const { entries: byTerm, pattern } = compile(entries);
+  if (!pattern) return text;
+
+  return text.replace(pattern, (written) => {
+    const entry = byTerm.get(written.toLowerCase());
+    if (ssml !== 'none' && entry?.phoneme) {
+      return placeholders.hold(`<phoneme alphabet="${entry.alphabet || 'ipa'}" ph="${escapeXml(entry.phoneme)}">${escapeXml(written)}</phoneme>`);
+    }
+    const respelling = entry?.respelling?.trim();
+    const full = ssml === 'full';
+    if (!respelling) return placeholders.hold(full ? escapeXml(written) : written);
+    return placeholders.hold(full ? `<sub alias="${escapeXml(respelling)}">${escapeXml(written)}</sub>` : respelling);
+  });
+}
+
+/**
+ * Writes entries as a W3C Pronunciation Lexicon Specification (PLS) document
+ * @param entries Entries to export
+ * @param locale Language of the lexicon, such as "en-US"
+ * @returns PLS XML
+ */
+export function toPls(entries: PronunciationEntry[], locale: string): string {
+  const lexemes = entries.map((entry) => {
+    const lines = [`    <grapheme>${escapeXml(entry.term)}</grapheme>`];
+    if (entry.phoneme) {
+      const alphabet = entry.alphabet && entry.alphabet !== 'ipa' ? ` alphabet="${entry.alphabet}"` : '';
+      lines.push(`    <phoneme${alphabet}>${escapeXml(entry.phoneme)}</phoneme>`);
+    }
+    if (entry.respelling) lines.push(`    <alias>${escapeXml(entry.respelling)}</alias>`);
+    return `  <lexeme>\n${lines.join('\n')}\n  </lexeme>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<lexicon version="1.0" xmlns="${PLS_NAMESPACE}" alphabet="ipa" xml:lang="${escapeXml(locale)}">`,
+    ...lexemes,
+    '</lexicon>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Reads entries from a PLS document. Each grapheme of a lexeme becomes an
+ * entry with the lexeme's first phoneme and alias.
+ * @param xml PLS XML
+ * @returns The entries
+ * @throws Error when the file is not a PLS lexicon
+ */
+export function parsePls(xml: string): PronunciationEntry[] {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = parsed.documentElement;
+  if (parsed.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'lexicon') {
+    throw new Error('The file is not a PLS pronunciation lexicon.');
+  }
+
+  const readAlphabet = (value: string | null | undefined): PhonemeAlphabet | undefined =>
+    PHONEME_ALPHABETS.find(alphabet => alphabet === value?.toLowerCase());
+  const lexiconAlphabet = readAlphabet(root.getAttribute('alphabet'));
+  const children = (element: Element, name: string) => [...element.getElementsByTagNameNS('*', name)];
+
+  return children(root, 'lexeme').flatMap((lexeme) => {
+    const phonemeElement = children(lexeme, 'phoneme')[0];
+    const alphabet = phonemeElement ? readAlphabet(phonemeElement.getAttribute('alphabet')) || lexiconAlphabet : undefined;
+    const phoneme = alphabet ? phonemeElement?.textContent?.trim() : undefined;
+    const respelling = children(lexeme, 'alias')[0]?.textContent?.trim();
+    if (!phoneme && !respelling) return [];
+
+    return children(lexeme, 'grapheme')
+      .map(grapheme => grapheme.textContent?.trim() || '')
+      .filter(term => term.length > 0)
+      .map(term => ({
+        term,
+        ...(respelling ? { respelling } : {}),
+        ...(phoneme ? { phoneme, alphabet } : {}),
+      }));
+  });
+}
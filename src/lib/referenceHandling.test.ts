@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { stripCitations } from './referenceHandling';
+
+describe('stripCitations', () => {
+  it.each([
+    ['As shown [12], it works.', 'As shown, it works.'],
+    ['As shown [3, 4-6] here.', 'As shown here.'],
+    ['It grew (Smith et al., 2019).', 'It grew.'],
+    ['Smith et al. (2019) showed this.', 'Smith et al. showed this.'],
+    ['It rose (Smith & Jones, 2019a; Lee 2020).', 'It rose.'],
+    ['The merger closed (March 2020) after review.', 'The merger closed (March 2020) after review.'],
+    ['Windows (2000) machines', 'Windows (2000) machines'],
+    ['Smith (2019) showed this.', 'Smith (2019) showed this.'],
+  ])('strips citations from %j', (text, expected) => {
+    expect(stripCitations(text)).toBe(expected);
+  });
+
+  it('drops the year after a name listed in the references', () => {
+    expect(stripCitations('Smith (2019) showed this on Windows (2000) machines.', ['Smith']))
+      .toBe('Smith showed this on Windows (2000) machines.');
+  });
+});
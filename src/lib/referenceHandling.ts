@@ -0,0 +1,327 @@
+import { bodyFontSize } from './chapterDetection';
+import { BIBLIOGRAPHY_PATTERN } from './documentSelection';
+import {
+  joinBlockText,
+  joinPageText,
+  type BlockKind,
+  type ExtractedDocument,
+  type ExtractedPage,
+  type TextBlock,
+  type TextLine,
+  type TextRun,
+} from './extractedDocument';
+import { createBlock, createLine } from './pageLayout';
+
+/**
+ * How footnotes are narrated: where they are cited, together at the end of
+ * their section, or not at all
+ */
+export type FootnoteMode = 'inline' | 'section-end' | 'drop';
+
+export interface ReferenceHandling {
+  /** Leave out citations such as "[12]" and "(Smith et al., 2019)" */
+  skipCitations: boolean;
+  footnotes: FootnoteMode;
+}
+
+export const DEFAULT_REFERENCE_HANDLING: ReferenceHandling = {
+  skipCitations: true,
+  footnotes: 'section-end',
+};
+
+/** Blocks that aren't running prose, where brackets and parentheses are not citations */
+const CITATION_FREE_KINDS = new Set<BlockKind>(['heading', 'code', 'table', 'equation', 'figure']);
+
+/** Footnotes sit in the lower part of the page... */
+const FOOTNOTE_AREA = 0.45;
+/** ...set smaller than the body text */
+const FOOTNOTE_SIZE_RATIO = 0.92;
+
+const MARKER = String.raw`(?:\d{1,3}|[*†‡§¶]{1,3})`;
+const MARKER_PATTERN = new RegExp(`^${MARKER}$`);
+/** Reference marker, possibly citing several notes ("3,4" or "3–5") */
+const REFERENCE_PATTERN = new RegExp(`^${MARKER}(?:[,–-]${MARKER})*$`);
+/** Marker typed in front of a note ("3 See..." or "3. See...") */
+const LEADING_MARKER_PATTERN = new RegExp(`^(${MARKER}|[⁰¹²³⁴⁵⁶⁷⁸⁹]{1,3})[.)]?\\s*(?=[\\p{L}"“(])`, 'u');
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+/** Unicode superscript digits right after a word or punctuation */
+const SUPERSCRIPT_REFERENCE_PATTERN = /(?<=[\p{L}\p{P}])[⁰¹²³⁴⁵⁶⁷⁸⁹]{1,3}/gu;
+
+// One author-year citation: "Smith 2019", "Smith & Jones, 2019a", "Smith et al., 2019, p. 12"
+const MONTH_OR_SEASON = String.raw`(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?|Spring|Summer|Autumn|Fall|Winter)`;
+/** Capitalized word that is not a month: "(March 2020)" is a date, not a citation */
+const NAME = String.raw`(?!${MONTH_OR_SEASON}\b)\p{Lu}[\p{L}'’-]+`;
+const PAGES = String.raw`(?:,\s*pp?\.\s*\d+(?:\s*[-–]\s*\d+)?)?`;
+const AUTHOR_YEAR = String.raw`${NAME}(?:,?\s+(?:and|&)\s+${NAME}|,\s+${NAME})*(?:\s+et\s+al\.)?,?\s+(?:\d{4}[a-z]?|n\.d\.)(?:,\s*\d{4}[a-z]?)*${PAGES}`;
+const NUMERIC_CITATION_PATTERN = new RegExp(String.raw`\s?\[\d+(?:\s*[-–,]\s*\d+)*${PAGES}\]`, 'gu');
+const AUTHOR_YEAR_CITATION_PATTERN = new RegExp(
+  String.raw`\s?\((?:(?:see|e\.g\.|cf\.)(?:,)?\s+)?${AUTHOR_YEAR}(?:\s*;\s*${AUTHOR_YEAR})*\)`,
+  'gu'
+);
+/** Year after a name read as part of the sentence: "Smith et al. (2019) showed" */
+const NARRATIVE_YEAR_PATTERN = new RegExp(String.raw`(et al\.|${NAME})\s\(\d{4}[a-z]?${PAGES}\)`, 'gu');
+/** Surname in a reference list entry: "Smith, J." (APA) or "Smith JA," (Vancouver) */
+const LISTED_AUTHOR_PATTERN = /(\p{Lu}[\p{Ll}'’-]+),?\s+\p{Lu}{1,2}[.,]/gu;
+
+function fromSuperscript(marker: string): string {
+  return [...marker].map(char => {
+    const digit = SUPERSCRIPT_DIGITS.indexOf(char);
+    return digit === -1 ? char : String(digit);
+  }).join('');
+}
+
+/**
+ * Lists the notes a reference marker cites
+ * @param marker Marker such as "3", "3,4" or "3–5"
+ * @returns Individual note markers
+ */
+function expandReference(marker: string): string[] {
+  return marker.split(',').flatMap((part) => {
+    const range = /^(\d+)[–-](\d+)$/.exec(part);
+    if (!range) return [part];
+    const notes: string[] = [];
+    for (let note = Number(range[1]); note <= Number(range[2]) && notes.length < 20; note++) notes.push(String(note));
+    return notes;
+  });
+}
+
+/** Small text raised above the line, as footnote markers are set */
+function isRaised(run: TextRun, line: TextLine): boolean {
+  return run.fontSize <= line.fontSize * 0.85 && run.y - line.y >= run.fontSize * 0.2;
+}
+
+/**
+ * Reads the marker a footnote starts with
+ * @param line First line of a possible note
+ * @returns The marker and the line without it, or null
+ */
+function readLeadingMarker(line: TextLine): { marker: string; line: TextLine } | null {
+  const [first, ...rest] = line.runs;
+  if (rest.length > 0 && isRaised(first, line) && MARKER_PATTERN.test(first.text.trim())) {
+    return { marker: first.text.trim(), line: createLine(rest) };
+  }
+
+  const match = LEADING_MARKER_PATTERN.exec(line.text);
+  if (!match) return null;
+  return { marker: fromSuperscript(match[1]), line: { ...line, text: line.text.slice(match[0].length) } };
+}
+
+/**
+ * Splits the footnote area of a page into one block per note
+ * @param page The page
+ * @param bodySize Body font size of the document
+ * @returns Page blocks with notes marked as footnote blocks
+ */
+function splitFootnotes(page: ExtractedPage, bodySize: number): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let notes: { marker: string; lines: TextLine[] }[] = [];
+
+  const flushNotes = () => {
+    for (const note of notes) {
+      blocks.push({ ...createBlock(note.lines), kind: 'footnote', footnoteMarker: note.marker });
+    }
+    notes = [];
+  };
+
+  for (const block of page.blocks) {
+    if (block.kind !== 'paragraph') {
+      flushNotes();
+      blocks.push(block);
+      continue;
+    }
+    const inArea = block.y + block.height <= page.height * FOOTNOTE_AREA;
+    const small = Math.max(...block.lines.map(line => line.fontSize)) < bodySize * FOOTNOTE_SIZE_RATIO;
+    const first = readLeadingMarker(block.lines[0]);
+    // Later paragraphs of a note have no marker of their own
+    if (!inArea || !small || (!first && notes.length === 0)) {
+      flushNotes();
+      blocks.push(block);
+      continue;
+    }
+
+    for (const line of block.lines) {
+      const marked = readLeadingMarker(line);
+      if (marked) notes.push({ marker: marked.marker, lines: [marked.line] });
+      else notes[notes.length - 1].lines.push(line);
+    }
+  }
+  flushNotes();
+
+  return blocks;
+}
+
+/**
+ * Takes footnote reference markers out of a block's lines
+ * @param block A body block
+ * @param uncited Markers of the notes on the same page not cited yet
+ * @returns The block without the markers, listing them in footnoteRefs
+ */
+function extractReferences(block: TextBlock, uncited: Set<string>): TextBlock {
+  const refs: string[] = [];
+  // Each note is cited once, so a later "2" on the page stays, as in "mc²"
+  const cites = (marker: string) => {
+    const notes = expandReference(marker);
+    if (!notes.every(note => uncited.has(note))) return false;
+    notes.forEach(note => uncited.delete(note));
+    refs.push(...notes);
+    return true;
+  };
+
+  const lines = block.lines.map((line) => {
+    // Raised numbers that match no note are left alone; they may be exponents
+    const runs = line.runs.filter(run => !(isRaised(run, line) && REFERENCE_PATTERN.test(run.text.trim()) && cites(run.text.trim())));
+    const rebuilt = runs.length === line.runs.length ? line : runs.length > 0 ? createLine(runs) : { ...line, text: '' };
+    const text = rebuilt.text.replace(SUPERSCRIPT_REFERENCE_PATTERN, marker => (cites(fromSuperscript(marker)) ? '' : marker));
+    return text === rebuilt.text ? rebuilt : { ...rebuilt, text };
+  });
+
+  if (refs.length === 0) return block;
+  return { ...createBlock(lines), kind: block.kind, footnoteRefs: refs };
+}
+
+/**
+ * Finds footnotes: small text at the bottom of a page that starts with a
+ * note marker. Each note becomes its own footnote block, and the markers
+ * citing it are taken out of the body text and listed on the citing block,
+ * so the narration can place the notes later.
+ * @param document The extracted document
+ * @returns A copy with footnotes marked
+ */
+export function markFootnotes(document: ExtractedDocument): ExtractedDocument {
+  const bodySize = bodyFontSize(document);
+  if (bodySize === 0) return document;
+
+  const pages = document.pages.map((page) => {
+    let blocks = splitFootnotes(page, bodySize);
+    const markers = new Set(blocks.filter(block => block.kind === 'footnote').map(block => block.footnoteMarker!));
+    if (markers.size === 0) return page;
+
+    blocks = blocks.map(block => (block.kind === 'paragraph' ? extractReferences(block, markers) : block));
+    return { ...page, blocks, text: joinBlockText(blocks) };
+  });
+
+  return { ...document, pages, text: joinPageText(pages) };
+}
+
+/**
+ * Removes inline citations: numeric ("[12]", "[3-5]") and author-year
+ * ("(Smith et al., 2019)", "(see Lee & Park 2020; Wu 2021)"). For narrative
+ * citations only the year is dropped, so "Smith (2019) argues" keeps the name;
+ * that needs "et al." or a listed author, as "Windows (2000)" is no citation.
+ * @param text Text to clean
+ * @param authors Surnames from the references section
+ * @returns The text without citations
+ */
+export function stripCitations(text: string, authors: readonly string[] = []): string {
+  return text
+    .replace(NUMERIC_CITATION_PATTERN, '')
+    .replace(AUTHOR_YEAR_CITATION_PATTERN, '')
+    .replace(NARRATIVE_YEAR_PATTERN, (citation, name: string) => (name === 'et al.' || authors.includes(name) ? name : citation))
+    .trim();
+}
+
+/**
+ * Collects the surnames listed in the references or bibliography section
+ * @param document The extracted document, with headings marked
+ * @returns Surnames in order of first appearance
+ */
+export function findCitedAuthors(document: ExtractedDocument): string[] {
+  const authors = new Set<string>();
+  let inReferences = false;
+  for (const block of document.pages.flatMap(page => page.blocks)) {
+    if (block.kind === 'heading') {
+      inReferences = BIBLIOGRAPHY_PATTERN.test(block.text.trim());
+    } else if (inReferences) {
+      for (const match of block.text.matchAll(LISTED_AUTHOR_PATTERN)) authors.add(match[1]);
+    }
+  }
+  return [...authors];
+}
+
+/** Introduces a note when it is read away from the bottom of its page */
+function narrateNote(note: TextBlock): TextBlock {
+  return { ...note, text: `Footnote: ${note.text}` };
+}
+
+function placeNotesInline(page: ExtractedPage): TextBlock[] {
+  const notes = page.blocks.filter(block => block.kind === 'footnote');
+  const placed = new Set<TextBlock>();
+  const blocks: TextBlock[] = [];
+
+  for (const block of page.blocks) {
+    if (block.kind === 'footnote') continue;
+    blocks.push(block);
+    for (const marker of block.footnoteRefs || []) {
+      const note = notes.find(candidate => candidate.footnoteMarker === marker && !placed.has(candidate));
+      if (!note) continue;
+      placed.add(note);
+      blocks.push(narrateNote(note));
+    }
+  }
+
+  // Notes nothing cites stay at the bottom of their page
+  return [...blocks, ...notes.filter(note => !placed.has(note))];
+}
+
+function placeNotesAtSectionEnd(pages: ExtractedPage[]): TextBlock[][] {
+  const result: TextBlock[][] = pages.map(() => []);
+  let pending: TextBlock[] = [];
+  let lastBody: TextBlock[] | null = null;
+
+  const flush = (into: TextBlock[]) => {
+    into.push(...pending);
+    pending = [];
+  };
+
+  pages.forEach((page, index) => {
+    const blocks = result[index];
+    for (const block of page.blocks) {
+      if (block.kind === 'footnote') {
+        pending.push(narrateNote(block));
+        continue;
+      }
+      // A heading starts the next section, so the notes go before it
+      if (block.kind === 'heading' && pending.length > 0) flush(lastBody || blocks);
+      blocks.push(block);
+      lastBody = blocks;
+    }
+  });
+  if (pending.length > 0) flush(lastBody || result[result.length - 1]);
+
+  return result;
+}
+
+/**
+ * Applies the citation and footnote choices to a document before narration
+ * @param document The extracted document, with footnotes marked
+ * @param handling How to treat citations and footnotes
+ * @returns A copy with citations and footnotes placed for listening
+ */
+export function applyReferenceHandling(document: ExtractedDocument, handling: ReferenceHandling): ExtractedDocument {
+  let placed: TextBlock[][];
+  if (handling.footnotes === 'drop') {
+    placed = document.pages.map(page => page.blocks.filter(block => block.kind !== 'footnote'));
+  } else if (handling.footnotes === 'inline') {
+    placed = document.pages.map(placeNotesInline);
+  } else {
+    placed = placeNotesAtSectionEnd(document.pages);
+  }
+
+  const pages = document.pages.map((page, index) => {
+    const blocks = handling.skipCitations
+      ? placed[index].map(block => (CITATION_FREE_KINDS.has(block.kind) ? block : { ...block, text: stripCitations(block.text, document.citedAuthors) }))
+      : placed[index];
+    return { ...page, blocks, text: joinBlockText(blocks) };
+  });
+
+  return { ...document, pages, text: joinPageText(pages) };
+}
+
+/**
+ * Counts the footnotes found in a document
+ * @param document The extracted document
+ * @returns Number of footnote blocks
+ */
+export function countFootnotes(document: ExtractedDocument): number {
+  return document.pages.reduce((count, page) => count + page.blocks.filter(block => block.kind === 'footnote').length, 0);
+}
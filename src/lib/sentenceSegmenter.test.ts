@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { segmentSentences } from './sentenceSegmenter';
+
+describe('segmentSentences', () => {
+  it.each([
+    ['Dr. Smith arrived. He sat.', ['Dr. Smith arrived.', 'He sat.']],
+    ['It costs 3.5 dollars. Fine.', ['It costs 3.5 dollars.', 'Fine.']],
+    ['J. R. R. Tolkien wrote it.', ['J. R. R. Tolkien wrote it.']],
+    ['"Stop!" he said. Then left.', ['"Stop!" he said.', 'Then left.']],
+    ['See Fig. 3 for details. Next.', ['See Fig. 3 for details.', 'Next.']],
+    ['Really? Yes! Good...', ['Really?', 'Yes!', 'Good...']],
+    ['The answer is no. Then we left.', ['The answer is no.', 'Then we left.']],
+    ['I love art. It is great.', ['I love art.', 'It is great.']],
+    ['The answer is no. I left.', ['The answer is no.', 'I left.']],
+    ['See p. 12 for more.', ['See p. 12 for more.']],
+    ['See no. 5 here.', ['See no. 5 here.']],
+    ['Read Vol. IV first.', ['Read Vol. IV first.']],
+    ['It opened Jan. 5 downtown.', ['It opened Jan. 5 downtown.']],
+    ['We met Jan. Then we left.', ['We met Jan.', 'Then we left.']],
+  ])('splits %j', (text, expected) => {
+    expect(segmentSentences(text).map(sentence => sentence.text)).toEqual(expected);
+  });
+
+  it('reports offsets into the source text', () => {
+    const text = 'One.  Two?';
+    expect(segmentSentences(text)).toEqual([
+      { text: 'One.', start: 0, end: 4 },
+      { text: 'Two?', start: 6, end: 10 },
+    ]);
+  });
+});
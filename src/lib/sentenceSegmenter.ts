@@ -0,0 +1,89 @@
+/** Sentence of a text, with its position in that text */
+export interface Sentence {
+  /** Sentence text, including its terminal punctuation and closing quotes */
+  text: string;
+  /** Offset of the first character in the source text */
+  start: number;
+  /** Offset just past the last character in the source text */
+  end: number;
+}
+
+/** Titles before names and Latin forms, which never end a sentence */
+const NON_TERMINAL_ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'mt', 'rev', 'gen', 'col', 'capt', 'lt', 'sgt', 'hon',
+  'e.g', 'i.e', 'cf', 'vs', 'viz', 'resp',
+]);
+
+/**
+ * Abbreviations before a number: "Fig. 3", "pp. 12-14", "Vol. IV", "Jan. 5".
+ * They are also words ("the answer is no."), so they only carry the
+ * sentence on when a number follows.
+ */
+const REFERENCE_ABBREVIATIONS = new Set([
+  'fig', 'figs', 'eq', 'eqs', 'no', 'nos', 'vol', 'vols', 'p', 'pp', 'ch', 'sec', 'ref', 'refs', 'art', 'ed', 'eds',
+  'approx', 'ca', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+/** Periods, question and exclamation marks and ellipses, with the quotes and brackets closing after them */
+const TERMINAL_PATTERN = /(?:[.!?…]+)["'”’»)\]]*(?=\s|$)/gu;
+/** A single capital before a period is an initial: "J. R. R. Tolkien" */
+const INITIAL_PATTERN = /^[("'“‘]?\p{Lu}$/u;
+/** Opening quotes and brackets before the first letter of a sentence */
+const OPENING_PATTERN = /^[("'“‘«[]+/u;
+/** Digits, or roman numerals other than the pronoun "I" */
+const NUMBER_PATTERN = /^[([]?(?:\d|(?!I\b)[IVXLC]+\b)/u;
+/** Start of the text after a terminal, past the spaces */
+const NEXT_PATTERN = /\s*(\S{0,4})/uy;
+
+/**
+ * Decides whether punctuation ends a sentence, from the word it closes and
+ * the text that follows. Decimals never reach here, as their point is
+ * not followed by a space.
+ * @param word The word before the punctuation, with the punctuation
+ * @param next Start of the text after the following spaces, empty at the end of the text
+ * @returns Whether the sentence ends after the punctuation
+ */
+function endsSentence(word: string, next: string): boolean {
+  if (!next) return true;
+  // A sentence never goes on in lower case: "Stop!" he said, "wait..." and "approx. five"
+  if (/^\p{Ll}/u.test(next.replace(OPENING_PATTERN, ''))) return false;
+  if (!/\.["'”’»)\]]*$/u.test(word)) return true;
+
+  const stem = word.replace(/^[("'“‘[]+/u, '').replace(/\.["'”’»)\]]*$/u, '');
+  if (NON_TERMINAL_ABBREVIATIONS.has(stem.toLowerCase())) return false;
+  if (REFERENCE_ABBREVIATIONS.has(stem.toLowerCase()) && NUMBER_PATTERN.test(next)) return false;
+  return !INITIAL_PATTERN.test(stem);
+}
+
+/**
+ * Splits text into sentences. Abbreviations, initials, decimals and
+ * ellipses inside a sentence don't end it, and each sentence keeps its own
+ * terminal punctuation so questions and exclamations are read as such.
+ * @param text Text to split
+ * @returns Sentences in order, with offsets into the text
+ */
+export function segmentSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const sentence = text.slice(start, end);
+    const leading = sentence.length - sentence.trimStart().length;
+    const trimmed = sentence.trim();
+    if (trimmed.length > 0) {
+      sentences.push({ text: trimmed, start: start + leading, end: start + leading + trimmed.length });
+    }
+    start = end;
+  };
+
+  for (const match of text.matchAll(TERMINAL_PATTERN)) {
+    const end = match.index + match[0].length;
+    const word = text.slice(Math.max(0, end - 40), end).match(/\S+$/)?.[0] ?? match[0];
+    NEXT_PATTERN.lastIndex = end;
+    const next = NEXT_PATTERN.exec(text)?.[1] ?? '';
+    if (endsSentence(word, next)) push(end);
+  }
+  push(text.length);
+
+  return sentences;
+}
@@ -0,0 +1,65 @@
+import { preprocessTextForTTS, type TextPreprocessingOptions } from './captionGenerator';
+import { buildSsmlChunks, passagesToText, type SpeechPassage } from './ssmlBuilder';
+import { segmentSentences } from './sentenceSegmenter';
+import { chunkSentences, type ChunkLimits } from './textChunker';
+import type { TTSProviderCapabilities } from './ttsProvider';
+
+/** Text to speak together with its structure */
+export interface SpeechScript {
+  text: string;
+  passages: SpeechPassage[];
+}
+
+/** Everything chunk preparation needs, kept plain so it can be posted to a worker */
+export interface ChunkPreparationRequest {
+  input: string | SpeechScript;
+  capabilities: TTSProviderCapabilities;
+  options: TextPreprocessingOptions;
+}
+
+/**
+ * Picks the preprocessing options out of wider options, which may hold
+ * values such as abort signals that can't be posted to a worker
+ * @param options Speech options
+ * @returns The preprocessing options alone
+ */
+export function preprocessingOptions(options: TextPreprocessingOptions): TextPreprocessingOptions {
+  const { locale, acronyms, pronunciations, links } = options;
+  return { locale, acronyms, pronunciations, links };
+}
+
+function chunkLimits(capabilities: TTSProviderCapabilities): ChunkLimits {
+  return {
+    maxLength: Math.min(300, capabilities.maxChunkLength), // Smaller chunks for better control
+    maxBytes: capabilities.maxChunkBytes,
+  };
+}
+
+/**
+ * Sentences are found in the source text, before preprocessing spells out
+ * acronyms: "5 PM. Then" read as "5 P M. Then" would look like an initial.
+ */
+function prepareTextChunks(text: string, limits: ChunkLimits, options: TextPreprocessingOptions): string[] {
+  const sentences = segmentSentences(text)
+    .map(sentence => preprocessTextForTTS(sentence.text, options))
+    .filter(sentence => sentence.length > 0);
+  return chunkSentences(sentences, limits);
+}
+
+/**
+ * Turns a text or script into the chunks a provider synthesizes: SSML for
+ * providers that take it, plain text for the rest. SSML chunks use the
+ * provider's full limit, since markup makes them longer and the pauses are
+ * written into the markup.
+ * @param request Text or script, provider capabilities and preprocessing options
+ * @returns Chunks to synthesize, in order
+ */
+export function prepareSpeechChunks({ input, capabilities, options }: ChunkPreparationRequest): string[] {
+  if (typeof input === 'string') return prepareTextChunks(input, chunkLimits(capabilities), options);
+
+  const { ssml, maxChunkLength, maxChunkBytes } = capabilities;
+  if (ssml !== 'none') {
+    return buildSsmlChunks(input.passages, options, { maxLength: maxChunkLength, maxBytes: maxChunkBytes }, ssml);
+  }
+  return prepareTextChunks(passagesToText(input.passages), chunkLimits(capabilities), options);
+}
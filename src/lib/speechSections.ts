@@ -0,0 +1,54 @@
+import { locateBlocks, type BlockLocation, type ExtractedDocument } from './extractedDocument';
+import { toSpeechPassages, type SpeechPassage } from './ssmlBuilder';
+
+export interface SpeechSection {
+  text: string;
+  /** Offset of the section in ExtractedDocument.text */
+  textStart: number;
+  /** Structure of the section, for engines that take SSML */
+  passages: SpeechPassage[];
+}
+
+/** Target length of the first section, kept short so audio starts quickly */
+const FIRST_SECTION_LENGTH = 300;
+const MAX_SECTION_LENGTH = 3000;
+
+/**
+ * Groups a document's blocks into sections for streamed synthesis. Sections
+ * start small and double in size, so the first audio is ready fast while
+ * later sections keep the number of audio segments low. A section never
+ * spans a break offset, so every chapter starts its own section.
+ * @param document The extracted document
+ * @param breakOffsets Offsets in the document text where sections must start
+ * @returns Sections in reading order
+ */
+export function splitIntoSpeechSections(document: ExtractedDocument, breakOffsets: number[] = []): SpeechSection[] {
+  const breaks = new Set(breakOffsets);
+  const sections: SpeechSection[] = [];
+  let targetLength = FIRST_SECTION_LENGTH;
+  let current: { start: number; end: number; locations: BlockLocation[] } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    sections.push({
+      text: document.text.slice(current.start, current.end),
+      textStart: current.start,
+      passages: toSpeechPassages(current.locations.map(location => location.block), document.fonts),
+    });
+    current = null;
+    targetLength = Math.min(targetLength * 2, MAX_SECTION_LENGTH);
+  };
+
+  for (const location of locateBlocks(document.pages)) {
+    if (current && (breaks.has(location.start) || current.end - current.start >= targetLength)) flush();
+    if (current) {
+      current.end = location.end;
+      current.locations.push(location);
+    } else {
+      current = { start: location.start, end: location.end, locations: [location] };
+    }
+  }
+  flush();
+
+  return sections;
+}
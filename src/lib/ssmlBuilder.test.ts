@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildSsmlChunks, type SpeechPassage } from './ssmlBuilder';
+
+const passages: SpeechPassage[] = [
+  { kind: 'heading', level: 1, spans: [{ text: 'Results', emphasis: false }] },
+  { kind: 'paragraph', spans: [{ text: 'It was ', emphasis: false }, { text: 'very', emphasis: true }, { text: ' fast.', emphasis: false }] },
+];
+const limits = { maxLength: 2500 };
+
+describe('buildSsmlChunks', () => {
+  it('writes full SSML documents', () => {
+    expect(buildSsmlChunks(passages, {}, limits, 'full')).toEqual([
+      '<speak><prosody rate="90%" pitch="+5%">Results</prosody><break time="1200ms"/>'
+      + 'It was <emphasis level="moderate">very</emphasis> fast.<break time="500ms"/></speak>',
+    ]);
+  });
+
+  it('keeps only pauses for engines that read tags inline', () => {
+    expect(buildSsmlChunks(passages, {}, limits, 'breaks-and-phonemes')).toEqual([
+      'Results<break time="1200ms"/>It was very fast.<break time="500ms"/>',
+    ]);
+  });
+
+  it('marks lexicon phonemes for engines that read tags inline', () => {
+    const pronunciations = [{ term: 'Nguyen', phoneme: 'ŋwiən' }];
+    const [chunk] = buildSsmlChunks([{ kind: 'paragraph', spans: [{ text: 'Ask Nguyen.', emphasis: false }] }], { pronunciations }, limits, 'breaks-and-phonemes');
+    expect(chunk).toBe('Ask <phoneme alphabet="ipa" ph="ŋwiən">Nguyen</phoneme>.<break time="500ms"/>');
+  });
+});
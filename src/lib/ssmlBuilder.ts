@@ -0,0 +1,242 @@
+import { preprocessTextForTTS, type TextPreprocessingOptions } from './captionGenerator';
+import type { FontInfo, TextBlock } from './extractedDocument';
+import { chunkText, fitsChunkLimits, type ChunkLimits } from './textChunker';
+import type { SsmlSupport } from './ttsProvider';
+
+export type PassageKind = 'heading' | 'paragraph' | 'list-item';
+
+/** Stretch of passage text, stressed when set in bold or italics */
+export interface SpeechSpan {
+  text: string;
+  emphasis: boolean;
+}
+
+/** Unit of narration with the structure the voice should carry */
+export interface SpeechPassage {
+  kind: PassageKind;
+  /** Heading depth, 1 for the largest headings; only set on headings */
+  level?: number;
+  spans: SpeechSpan[];
+}
+
+/** Pauses after each kind of passage, in milliseconds */
+const BREAK_AFTER: Record<PassageKind, number> = {
+  heading: 800,
+  paragraph: 500,
+  'list-item': 300,
+};
+/** Top-level headings get a longer pause, as they usually start a chapter */
+const CHAPTER_BREAK = 1200;
+const HEADING_PROSODY = 'rate="90%" pitch="+5%"';
+
+/** Bullets that start list items; numbered items keep their number */
+const BULLET_PATTERN = /^[•◦▪▫‣●○■□➢►✓–—*-]\s+/u;
+const LIST_ITEM_START_PATTERN = /\s(?=[•◦▪▫‣●○■□➢►✓]\s)/u;
+const NUMBERED_ITEM_PATTERN = /^\(?(?:\d{1,2}|[a-z])[.)]\s/;
+const SENTENCE_END_PATTERN = /[.!?:;]["'”’)\]]?$/;
+
+const SPEAK_OPEN = '<speak>';
+const SPEAK_CLOSE = '</speak>';
+
+/**
+ * Finds the stretches of a paragraph set in bold or italics. A paragraph
+ * set entirely in one style has no emphasis of its own.
+ * @param block Paragraph block
+ * @param fonts Fonts of the document
+ * @returns Emphasized phrases in reading order
+ */
+function findEmphasis(block: TextBlock, fonts: Record<string, FontInfo>): string[] {
+  const runs = block.lines.flatMap(line => line.runs);
+  const isEmphasized = (fontName: string) => !!(fonts[fontName]?.bold || fonts[fontName]?.italic);
+  if (runs.length === 0 || runs.every(run => isEmphasized(run.fontName) || !run.text.trim())) return [];
+
+  const phrases: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    const phrase = current.join('').replace(/\s+/g, ' ').trim();
+    if (/\p{L}{2,}/u.test(phrase)) phrases.push(phrase);
+    current = [];
+  };
+  for (const run of runs) {
+    if (isEmphasized(run.fontName)) current.push(run.text);
+    else if (run.text.trim()) flush();
+  }
+  flush();
+  return phrases;
+}
+
+/**
+ * Splits text into plain and emphasized spans
+ * @param text Passage text
+ * @param phrases Emphasized phrases in reading order; phrases not found in the text are ignored
+ * @returns Spans covering the whole text
+ */
+function splitSpans(text: string, phrases: string[]): SpeechSpan[] {
+  const spans: SpeechSpan[] = [];
+  let cursor = 0;
+  for (const phrase of phrases) {
+    const index = text.indexOf(phrase, cursor);
+    if (index === -1) continue;
+    if (index > cursor) spans.push({ text: text.slice(cursor, index), emphasis: false });
+    spans.push({ text: phrase, emphasis: true });
+    cursor = index + phrase.length;
+  }
+  if (cursor < text.length) spans.push({ text: text.slice(cursor), emphasis: false });
+  return spans;
+}
+
+/**
+ * Turns blocks into passages: headings with their level, paragraphs with
+ * their bold and italic phrases, and bulleted paragraphs split into list items
+ * @param blocks Blocks in reading order
+ * @param fonts Fonts of the document
+ * @returns Passages in reading order
+ */
+export function toSpeechPassages(blocks: TextBlock[], fonts: Record<string, FontInfo>): SpeechPassage[] {
+  return blocks
+    .filter(block => block.text.trim().length > 0)
+    .flatMap((block): SpeechPassage[] => {
+      if (block.kind === 'heading') {
+        return [{ kind: 'heading', level: block.headingLevel, spans: [{ text: block.text, emphasis: false }] }];
+      }
+      if (block.kind !== 'paragraph') {
+        return [{ kind: 'paragraph', spans: [{ text: block.text, emphasis: false }] }];
+      }
+
+      const emphasis = findEmphasis(block, fonts);
+      const isList = BULLET_PATTERN.test(block.text) || NUMBERED_ITEM_PATTERN.test(block.text);
+      if (!isList) return [{ kind: 'paragraph', spans: splitSpans(block.text, emphasis) }];
+
+      return block.text
+        .split(LIST_ITEM_START_PATTERN)
+        .map(item => item.replace(BULLET_PATTERN, '').trim())
+        .filter(item => item.length > 0)
+        .map(item => ({ kind: 'list-item', spans: splitSpans(item, emphasis) }));
+    });
+}
+
+const passageText = (passage: SpeechPassage) => passage.spans.map(span => span.text).join('');
+
+/**
+ * Writes passages as plain text for engines that ignore SSML. Headings and
+ * list items end in a full stop so the engine still pauses after them.
+ * @param passages Passages in reading order
+ * @returns Plain text, passages separated by blank lines
+ */
+export function passagesToText(passages: SpeechPassage[]): string {
+  return passages
+    .map((passage) => {
+      const text = passageText(passage).trim();
+      return passage.kind !== 'paragraph' && !SENTENCE_END_PATTERN.test(text) ? `${text}.` : text;
+    })
+    .join('\n\n');
+}
+
+function renderSpans(spans: SpeechSpan[], options: TextPreprocessingOptions, ssml: SsmlSupport): string {
+  return spans
+    .map((span) => {
+      const markup = preprocessTextForTTS(span.text, options, ssml);
+      return span.emphasis && markup && ssml === 'full' ? `<emphasis level="moderate">${markup}</emphasis>` : markup;
+    })
+    .filter(markup => markup.length > 0)
+    .join(' ')
+    .replace(/ (?=[,.;:!?])/g, '');
+}
+
+/**
+ * Writes one passage as SSML: headings slower and slightly higher, bold
+ * and italic phrases emphasized, and a pause after every passage. Engines
+ * that only read pauses and phonemes get just those tags.
+ * @param passage The passage
+ * @param options Preprocessing settings
+ * @param ssml Markup the engine takes
+ * @returns SSML fragment, without the <speak> root
+ */
+export function passageToSsml(passage: SpeechPassage, options: TextPreprocessingOptions = {}, ssml: SsmlSupport = 'full'): string {
+  const content = renderSpans(passage.spans, options, ssml);
+  if (!content) return '';
+  if (passage.kind === 'heading') {
+    const pause = passage.level === 1 ? CHAPTER_BREAK : BREAK_AFTER.heading;
+    const heading = ssml === 'full' ? `<prosody ${HEADING_PROSODY}>${content}</prosody>` : content;
+    return `${heading}<break time="${pause}ms"/>`;
+  }
+  return `${content}<break time="${BREAK_AFTER[passage.kind]}ms"/>`;
+}
+
+/**
+ * Writes a passage that is too long for one request as several fragments,
+ * split at sentence and clause boundaries. Markup makes text longer, so the
+ * source text is split well under the limit, and again if that wasn't enough.
+ * @param passage The passage
+ * @param options Preprocessing settings
+ * @param limits Room left in a document
+ * @param ssml Markup the engine takes
+ * @param sourceLength Most characters of source text per fragment
+ * @returns Fragments that each fit the limits
+ * @throws Error when the limits can't hold the markup of a single character
+ */
+function splitPassage(
+  passage: SpeechPassage,
+  options: TextPreprocessingOptions,
+  limits: ChunkLimits,
+  ssml: SsmlSupport,
+  sourceLength: number = Math.floor(limits.maxLength / 2)
+): string[] {
+  const sourceLimits = {
+    maxLength: Math.max(1, sourceLength),
+    maxBytes: limits.maxBytes === undefined ? undefined : Math.floor(limits.maxBytes / 2),
+  };
+
+  return chunkText(passageText(passage), sourceLimits).flatMap((text) => {
+    const piece: SpeechPassage = { ...passage, spans: [{ text, emphasis: false }] };
+    const fragment = passageToSsml(piece, options, ssml);
+    if (fitsChunkLimits(fragment, limits)) return [fragment];
+    if (text.length <= 1) throw new Error('The chunk limit is too small for the SSML markup.');
+    return splitPassage(piece, options, limits, ssml, Math.floor(text.length / 2));
+  });
+}
+
+/**
+ * Builds SSML documents for a run of passages, each small enough for one
+ * synthesize call. Passages are never split across documents unless a
+ * single passage is too long on its own. Engines that read tags inline get
+ * the plain text with its tags, without a <speak> root.
+ * @param passages Passages in reading order
+ * @param options Preprocessing settings
+ * @param limits Size limits of the provider, which the whole document must fit
+ * @param ssml Markup the engine takes
+ * @returns SSML documents in reading order
+ */
+export function buildSsmlChunks(
+  passages: SpeechPassage[],
+  options: TextPreprocessingOptions,
+  limits: ChunkLimits,
+  ssml: SsmlSupport = 'full'
+): string[] {
+  const [open, close] = ssml === 'full' ? [SPEAK_OPEN, SPEAK_CLOSE] : ['', ''];
+  const markup = open.length + close.length;
+  const room: ChunkLimits = {
+    maxLength: limits.maxLength - markup,
+    maxBytes: limits.maxBytes === undefined ? undefined : limits.maxBytes - markup,
+  };
+  const chunks: string[] = [];
+  let current = '';
+
+  const add = (fragment: string) => {
+    if (current && !fitsChunkLimits(current + fragment, room)) {
+      chunks.push(`${open}${current}${close}`);
+      current = '';
+    }
+    current += fragment;
+  };
+
+  for (const passage of passages) {
+    const fragment = passageToSsml(passage, options, ssml);
+    if (!fragment) continue;
+    const fragments = fitsChunkLimits(fragment, room) ? [fragment] : splitPassage(passage, options, room, ssml);
+    fragments.forEach(add);
+  }
+  if (current) chunks.push(`${open}${current}${close}`);
+
+  return chunks;
+}
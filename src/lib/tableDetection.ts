@@ -0,0 +1,247 @@
+import { joinBlockText, joinPageText, type ExtractedDocument, type TableData, type TextBlock, type TextLine } from './extractedDocument';
+import type { ColumnBounds } from './pageLayout';
+
+/** How tables are narrated: dimensions only, every row, or not at all */
+export type TableMode = 'summary' | 'rows' | 'skip';
+
+const MIN_ROWS = 3;
+/** Rows further apart than this many line heights end a table */
+const MAX_ROW_GAP = 2.5;
+/** Cells are short; lines of text columns are much longer */
+const MAX_MEDIAN_CELL_LENGTH = 28;
+
+/** A figure, possibly with a currency, percent sign or unit ("4.2 million", "12 %") */
+const NUMERIC_CELL_PATTERN = /^[-+−–(]?[$€£¥]?\s?\d[\d.,]*\s?(?:%|\p{L}{1,12})?\)?$/u;
+
+interface Row {
+  /** Baseline of the row */
+  y: number;
+  height: number;
+  lines: TextLine[];
+}
+
+export interface DetectedTables {
+  tables: TextBlock[];
+  /** Lines outside any table */
+  lines: TextLine[];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Groups line segments that share a baseline into rows
+ * @param lines Line segments of a page
+ * @returns Rows from top to bottom, segments left to right
+ */
+function groupIntoRows(lines: TextLine[]): Row[] {
+  const sorted = [...lines].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Row[] = [];
+
+  for (const line of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row.y - line.y) <= Math.max(row.height, line.fontSize) * 0.5) {
+      row.lines.push(line);
+      row.height = Math.max(row.height, line.height);
+    } else {
+      rows.push({ y: line.y, height: line.height, lines: [line] });
+    }
+  }
+
+  rows.forEach(row => row.lines.sort((a, b) => a.x - b.x));
+  return rows;
+}
+
+/**
+ * Finds table columns as the horizontal spans cells overlap in
+ * @param rows Rows of the table
+ * @returns Column bounds from left to right
+ */
+function findColumns(rows: Row[]): ColumnBounds[] {
+  const spans = rows
+    .flatMap(row => row.lines.map(line => ({ left: line.x, right: line.x + line.width })))
+    .sort((a, b) => a.left - b.left);
+
+  const columns: ColumnBounds[] = [];
+  for (const span of spans) {
+    const last = columns[columns.length - 1];
+    if (last && span.left <= last.right + 1) last.right = Math.max(last.right, span.right);
+    else columns.push({ ...span });
+  }
+  return columns;
+}
+
+function readCells(row: Row, columns: ColumnBounds[]): string[] {
+  const cells = columns.map(() => [] as string[]);
+  for (const line of row.lines) {
+    const center = line.x + line.width / 2;
+    const column = columns.findIndex(bounds => center >= bounds.left - 1 && center <= bounds.right + 1);
+    if (column !== -1) cells[column].push(line.text);
+  }
+  return cells.map(parts => parts.join(' ').trim());
+}
+
+/**
+ * Reads the cells of a run of rows, when they line up as a table
+ * @param rows Consecutive rows with several segments each
+ * @returns The table data, or null when the rows look like text columns
+ */
+function readTable(rows: Row[]): TableData | null {
+  const columns = findColumns(rows);
+  if (columns.length < 2) return null;
+
+  const segments = rows.flatMap(row => row.lines);
+  if (median(segments.map(line => line.text.length)) > MAX_MEDIAN_CELL_LENGTH) return null;
+
+  const cells = rows.map(row => readCells(row, columns));
+  const [first, ...rest] = cells;
+  // A first row of labels over rows with figures is a header
+  const isHeader = first.every(cell => cell.length > 0 && !NUMERIC_CELL_PATTERN.test(cell))
+    && rest.some(row => row.some(cell => NUMERIC_CELL_PATTERN.test(cell)));
+
+  return isHeader ? { header: first, rows: rest } : { header: null, rows: cells };
+}
+
+function createTableBlock(rows: Row[], table: TableData): TextBlock {
+  const lines = rows.flatMap(row => row.lines);
+  const x = Math.min(...lines.map(line => line.x));
+  const right = Math.max(...lines.map(line => line.x + line.width));
+  const bottom = Math.min(...lines.map(line => line.y));
+  const top = Math.max(...lines.map(line => line.y + line.height));
+
+  return {
+    kind: 'table',
+    text: narrateTable(table, 'rows'),
+    lines,
+    table,
+    x,
+    y: bottom,
+    width: right - x,
+    height: top - bottom,
+  };
+}
+
+/**
+ * Reads a table again from what is left of its lines, after some of them
+ * were dropped
+ * @param lines Remaining lines of a table block
+ * @returns The table block, or null when the lines no longer form a table
+ */
+export function rebuildTable(lines: TextLine[]): TextBlock | null {
+  const rows = groupIntoRows(lines);
+  const table = readTable(rows);
+  return table ? createTableBlock(rows, table) : null;
+}
+
+/**
+ * Finds tables from the geometry of line segments: at least three
+ * consecutive rows that are each split into several cells, whose cells line
+ * up in columns and hold short text
+ * @param lines Line segments of a page, split at wide gaps
+ * @returns Table blocks and the lines left for normal layout
+ */
+export function detectTables(lines: TextLine[]): DetectedTables {
+  const rows = groupIntoRows(lines);
+  const tables: TextBlock[] = [];
+  const tableLines = new Set<TextLine>();
+
+  const flush = (run: Row[]) => {
+    if (run.length < MIN_ROWS) return;
+    const table = readTable(run);
+    if (!table) return;
+    tables.push(createTableBlock(run, table));
+    run.forEach(row => row.lines.forEach(line => tableLines.add(line)));
+  };
+
+  let run: Row[] = [];
+  for (const row of rows) {
+    const previous = run[run.length - 1];
+    const close = previous && previous.y - row.y <= Math.max(previous.height, row.height) * MAX_ROW_GAP;
+    if (row.lines.length >= 2 && (!previous || close)) {
+      run.push(row);
+      continue;
+    }
+    flush(run);
+    run = row.lines.length >= 2 ? [row] : [];
+  }
+  flush(run);
+
+  return { tables, lines: lines.filter(line => !tableLines.has(line)) };
+}
+
+/**
+ * Puts table blocks into the reading order of a page, before the first
+ * block below the table that shares its horizontal span
+ * @param blocks Page blocks in reading order
+ * @param tables Table blocks from detectTables
+ * @returns All blocks in reading order
+ */
+export function insertTables(blocks: TextBlock[], tables: TextBlock[]): TextBlock[] {
+  const result = [...blocks];
+  for (const table of tables) {
+    const top = table.y + table.height;
+    const index = result.findIndex(block =>
+      block.kind !== 'table'
+      && block.y + block.height <= top
+      && block.x < table.x + table.width
+      && block.x + block.width > table.x
+    );
+    if (index === -1) result.push(table);
+    else result.splice(index, 0, table);
+  }
+  return result;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Writes a table out for listening
+ * @param table The table cells
+ * @param mode Dimensions only, or every row with its cells labelled by column
+ * @returns Narration text, empty when tables are skipped
+ */
+export function narrateTable(table: TableData, mode: TableMode): string {
+  if (mode === 'skip') return '';
+
+  const columnCount = Math.max(table.header?.length || 0, ...table.rows.map(row => row.length));
+  const titles = table.header?.filter(title => title.length > 0) || [];
+  const summary = `Table with ${plural(table.rows.length, 'row')} and ${plural(columnCount, 'column')}`
+    + (titles.length > 0 ? `: ${titles.join(', ')}.` : '.');
+  if (mode === 'summary') return summary;
+
+  const rows = table.rows.map((row, index) => {
+    const cells = row
+      .map((cell, column) => (cell && table.header?.[column] ? `${table.header[column]}: ${cell}` : cell))
+      .filter(cell => cell.length > 0);
+    return table.header ? `Row ${index + 1}, ${cells.join('; ')}.` : `Row ${index + 1}: ${cells.join(', ')}.`;
+  });
+  return [summary, ...rows].join(' ');
+}
+
+/**
+ * Narrates every table in a document the chosen way
+ * @param document The extracted document
+ * @param mode Table narration mode
+ * @returns A copy with table block text rewritten, or without tables when skipped
+ */
+export function applyTableMode(document: ExtractedDocument, mode: TableMode): ExtractedDocument {
+  const pages = document.pages.map((page) => {
+    const blocks = page.blocks
+      .map(block => (block.table ? { ...block, text: narrateTable(block.table, mode) } : block))
+      .filter(block => block.kind !== 'table' || block.text.length > 0);
+    return { ...page, blocks, text: joinBlockText(blocks) };
+  });
+  return { ...document, pages, text: joinPageText(pages) };
+}
+
+/**
+ * Counts the tables found in a document
+ * @param document The extracted document
+ * @returns Number of table blocks
+ */
+export function countTables(document: ExtractedDocument): number {
+  return document.pages.reduce((count, page) => count + page.blocks.filter(block => block.kind === 'table').length, 0);
+}
@@ -0,0 +1,120 @@
+import { segmentSentences } from './sentenceSegmenter';
+
+/** Size limits of a single synthesize call */
+export interface ChunkLimits {
+  /** Most characters per chunk */
+  maxLength: number;
+  /** Most UTF-8 bytes per chunk, for engines that count bytes instead of characters */
+  maxBytes?: number;
+}
+
+/**
+ * Places to split a sentence that is too long, tried in order: after
+ * semicolons and colons, after commas, before conjunctions, then between words
+ */
+const CLAUSE_BREAKS = [
+  /(?<=[;:])\s+/u,
+  /(?<=,)\s+/u,
+  /\s+(?=(?:and|but|or|nor|yet|so|because|although|though|while|whereas|which|unless|until)\s)/iu,
+  /\s+/u,
+];
+
+const encoder = new TextEncoder();
+
+/**
+ * Checks a chunk against the limits
+ * @param text The chunk
+ * @param limits Size limits
+ * @returns Whether the chunk can be sent as is
+ */
+export function fitsChunkLimits(text: string, limits: ChunkLimits): boolean {
+  if (text.length > limits.maxLength) return false;
+  // UTF-8 never takes more than three bytes per UTF-16 code unit
+  if (limits.maxBytes === undefined || text.length * 3 <= limits.maxBytes) return true;
+  return encoder.encode(text).length <= limits.maxBytes;
+}
+
+/**
+ * Joins pieces into as few chunks as the limits allow, keeping their order
+ * @param pieces Pieces that each fit on their own
+ * @param limits Size limits
+ * @returns The chunks
+ */
+function pack(pieces: string[], limits: ChunkLimits): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const joined = current ? `${current} ${piece}` : piece;
+    if (current && !fitsChunkLimits(joined, limits)) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = joined;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Cuts text with no place left to break, such as a long URL, without
+ * splitting a character in two
+ * @param text Text to cut
+ * @param limits Size limits
+ * @returns Pieces that fit
+ */
+function cutHard(text: string, limits: ChunkLimits): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const character of text) {
+    if (current && !fitsChunkLimits(current + character, limits)) {
+      pieces.push(current);
+      current = '';
+    }
+    current += character;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Splits an overlong sentence at the strongest clause boundary that gives
+ * more than one piece, then packs the pieces back up to the limits
+ * @param sentence Sentence that doesn't fit
+ * @param limits Size limits
+ * @param level First entry of CLAUSE_BREAKS to try
+ * @returns Pieces that fit
+ */
+function splitSentence(sentence: string, limits: ChunkLimits, level: number = 0): string[] {
+  if (fitsChunkLimits(sentence, limits)) return [sentence];
+  if (level >= CLAUSE_BREAKS.length) return cutHard(sentence, limits);
+
+  const clauses = sentence.split(CLAUSE_BREAKS[level]).filter(clause => clause.length > 0);
+  if (clauses.length < 2) return splitSentence(sentence, limits, level + 1);
+  return pack(clauses.flatMap(clause => splitSentence(clause, limits, level + 1)), limits);
+}
+
+/**
+ * Packs sentences into chunks for synthesis. Chunks end at sentence ends
+ * where possible; sentences too long for one chunk are split at clause
+ * boundaries. No chunk is empty or over the limits.
+ * @param sentences Non-empty sentences in reading order
+ * @param limits Size limits of the provider
+ * @returns Chunks in reading order
+ */
+export function chunkSentences(sentences: string[], limits: ChunkLimits): string[] {
+  if (limits.maxLength < 1 || (limits.maxBytes !== undefined && limits.maxBytes < 4)) {
+    throw new Error('Chunk limits are too small to hold any text.');
+  }
+  return pack(sentences.flatMap(sentence => splitSentence(sentence, limits)), limits);
+}
+
+/**
+ * Splits text into sentences and packs them into chunks, see chunkSentences
+ * @param text Text to split
+ * @param limits Size limits of the provider
+ * @returns Chunks in reading order; none for blank text
+ */
+export function chunkText(text: string, limits: ChunkLimits): string[] {
+  return chunkSentences(segmentSentences(text).map(sentence => sentence.text), limits);
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeText } from './textNormalizer';
+
+describe('normalizeText', () => {
+  it.each([
+    ['It costs $3.50 today.', 'It costs three dollars and fifty cents today.'],
+    ['On 12/03/2021 we met.', 'On December third, twenty twenty-one we met.'],
+    ['The 3rd of 21 items', 'The third of twenty-one items'],
+    ['It weighs 5 kg.', 'It weighs five kilograms.'],
+    ['Call at 10:30 am.', 'Call at ten thirty AM.'],
+    ['Up 25% in 1999.', 'Up twenty-five percent in nineteen ninety-nine.'],
+    ['1,234,567 people', 'one million two hundred thirty-four thousand five hundred sixty-seven people'],
+  ])('reads %j as %j', (text, expected) => {
+    expect(normalizeText(text)).toBe(expected);
+  });
+
+  it('reads dates day first for British English', () => {
+    expect(normalizeText('On 12/03/2021 we met.', 'en-GB')).toBe('On the twelfth of March twenty twenty-one we met.');
+  });
+});
@@ -0,0 +1,316 @@
+import { cardinalToWords, decimalToWords, digitsToWords, ordinalToWords, yearToWords } from './numberWords';
+
+/** Reading rules that differ between English locales */
+export interface NormalizationLocale {
+  id: string;
+  /** Say "and" after hundreds ("one hundred and five") */
+  and: boolean;
+  /** Numeric dates are written day first (31/12/2024) */
+  dayFirst: boolean;
+  /** Spell units "metre" and "litre" */
+  metricSpelling: boolean;
+  /** Word read for "%" */
+  percent: 'percent' | 'per cent';
+}
+
+export const DEFAULT_NORMALIZATION_LOCALE = 'en-US';
+
+const AMERICAN: Omit<NormalizationLocale, 'id'> = { and: false, dayFirst: false, metricSpelling: false, percent: 'percent' };
+const BRITISH: Omit<NormalizationLocale, 'id'> = { and: true, dayFirst: true, metricSpelling: true, percent: 'per cent' };
+
+const LOCALES: Record<string, Omit<NormalizationLocale, 'id'>> = {
+  US: AMERICAN,
+  CA: { ...AMERICAN, metricSpelling: true },
+  GB: BRITISH,
+  IE: BRITISH,
+  AU: BRITISH,
+  NZ: BRITISH,
+  ZA: BRITISH,
+  IN: { ...BRITISH, percent: 'percent' },
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+/** Abbreviations are only taken with their period, so "Mar" and "Jan" as names are left alone */
+const MONTH_ABBREVIATIONS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sept?', 'Oct', 'Nov', 'Dec'];
+const MONTH = `(${MONTHS.join('|')}|(?:${MONTH_ABBREVIATIONS.join('|')})\\.)`;
+
+interface Currency {
+  singular: string;
+  plural: string;
+  minorSingular?: string;
+  minorPlural?: string;
+}
+
+const CURRENCIES: Record<string, Currency> = {
+  $: { singular: 'dollar', plural: 'dollars', minorSingular: 'cent', minorPlural: 'cents' },
+  USD: { singular: 'US dollar', plural: 'US dollars', minorSingular: 'cent', minorPlural: 'cents' },
+  '£': { singular: 'pound', plural: 'pounds', minorSingular: 'penny', minorPlural: 'pence' },
+  GBP: { singular: 'pound', plural: 'pounds', minorSingular: 'penny', minorPlural: 'pence' },
+  '€': { singular: 'euro', plural: 'euros', minorSingular: 'cent', minorPlural: 'cents' },
+  EUR: { singular: 'euro', plural: 'euros', minorSingular: 'cent', minorPlural: 'cents' },
+  '¥': { singular: 'yen', plural: 'yen' },
+  JPY: { singular: 'yen', plural: 'yen' },
+  '₹': { singular: 'rupee', plural: 'rupees', minorSingular: 'paisa', minorPlural: 'paise' },
+  INR: { singular: 'rupee', plural: 'rupees', minorSingular: 'paisa', minorPlural: 'paise' },
+};
+
+const SCALE_WORDS: Record<string, string> = {
+  thousand: 'thousand', k: 'thousand', K: 'thousand',
+  million: 'million', m: 'million', M: 'million', mn: 'million',
+  billion: 'billion', bn: 'billion', B: 'billion',
+  trillion: 'trillion', tn: 'trillion',
+};
+
+/** Unit symbols with their singular and plural names, in American spelling */
+const UNITS: [string, string, string][] = [
+  ['km/h', 'kilometer per hour', 'kilometers per hour'],
+  ['m/s²', 'meter per second squared', 'meters per second squared'],
+  ['m/s', 'meter per second', 'meters per second'],
+  ['mph', 'mile per hour', 'miles per hour'],
+  ['km²', 'square kilometer', 'square kilometers'],
+  ['m²', 'square meter', 'square meters'],
+  ['cm²', 'square centimeter', 'square centimeters'],
+  ['m³', 'cubic meter', 'cubic meters'],
+  ['cm³', 'cubic centimeter', 'cubic centimeters'],
+  ['km', 'kilometer', 'kilometers'],
+  ['cm', 'centimeter', 'centimeters'],
+  ['mm', 'millimeter', 'millimeters'],
+  ['µm', 'micrometer', 'micrometers'],
+  ['μm', 'micrometer', 'micrometers'],
+  ['nm', 'nanometer', 'nanometers'],
+  ['m', 'meter', 'meters'],
+  ['mi', 'mile', 'miles'],
+  ['ft', 'foot', 'feet'],
+  ['kg', 'kilogram', 'kilograms'],
+  ['mg', 'milligram', 'milligrams'],
+  ['µg', 'microgram', 'micrograms'],
+  ['μg', 'microgram', 'micrograms'],
+  ['g', 'gram', 'grams'],
+  ['lbs', 'pound', 'pounds'],
+  ['lb', 'pound', 'pounds'],
+  ['oz', 'ounce', 'ounces'],
+  ['ml', 'milliliter', 'milliliters'],
+  ['mL', 'milliliter', 'milliliters'],
+  ['L', 'liter', 'liters'],
+  ['l', 'liter', 'liters'],
+  ['ms', 'millisecond', 'milliseconds'],
+  ['min', 'minute', 'minutes'],
+  ['h', 'hour', 'hours'],
+  ['kWh', 'kilowatt hour', 'kilowatt hours'],
+  ['MW', 'megawatt', 'megawatts'],
+  ['kW', 'kilowatt', 'kilowatts'],
+  ['W', 'watt', 'watts'],
+  ['mV', 'millivolt', 'millivolts'],
+  ['kV', 'kilovolt', 'kilovolts'],
+  ['V', 'volt', 'volts'],
+  ['mA', 'milliamp', 'milliamps'],
+  ['GHz', 'gigahertz', 'gigahertz'],
+  ['MHz', 'megahertz', 'megahertz'],
+  ['kHz', 'kilohertz', 'kilohertz'],
+  ['Hz', 'hertz', 'hertz'],
+  ['kPa', 'kilopascal', 'kilopascals'],
+  ['Pa', 'pascal', 'pascals'],
+  ['TB', 'terabyte', 'terabytes'],
+  ['GB', 'gigabyte', 'gigabytes'],
+  ['MB', 'megabyte', 'megabytes'],
+  ['KB', 'kilobyte', 'kilobytes'],
+  ['kB', 'kilobyte', 'kilobytes'],
+  ['kcal', 'kilocalorie', 'kilocalories'],
+  ['°C', 'degree Celsius', 'degrees Celsius'],
+  ['°F', 'degree Fahrenheit', 'degrees Fahrenheit'],
+  ['°', 'degree', 'degrees'],
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/** A number with optional thousands separators and decimals, not part of a word */
+const NUMBER = String.raw`(?<![\p{L}\d.,])(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)`;
+const UNIT = `(${[...UNITS].sort((a, b) => b[0].length - a[0].length).map(([symbol]) => escapeRegExp(symbol)).join('|')})`;
+const CURRENCY_SYMBOL = String.raw`([$£€¥₹]|USD|GBP|EUR|JPY|INR)`;
+const SCALE = String.raw`(?:\s?(thousand|million|billion|trillion|mn|bn|tn|[kKmMB])(?![\p{L}\d]))?`;
+
+const PHONE_PATTERN = new RegExp([
+  // +44 20 7946 0958, +1-202-555-0143
+  String.raw`\+\d{1,3}(?:[\s.-]?\(?\d{1,4}\)?){2,5}`,
+  // (202) 555-0143, 202-555-0143, 202.555.0143
+  String.raw`(?<![\d.-])(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}`,
+  // 020 7946 0958, 0412 345 678
+  String.raw`(?<![\d.-])0\d{2,4}[\s-]\d{3,4}[\s-]\d{3,4}`,
+].map(pattern => `(?:${pattern})(?![\\d.-]?\\d)`).join('|'), 'g');
+const ISO_DATE_PATTERN = /(?<![\d-])(\d{4})-(\d{2})-(\d{2})(?![\d-])/g;
+const NUMERIC_DATE_PATTERN = /(?<![\d/.-])(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})(?![\d/.-]?\d)/g;
+const MONTH_FIRST_DATE_PATTERN = new RegExp(String.raw`\b${MONTH}\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?(?![\d\p{L}])`, 'gu');
+const DAY_FIRST_DATE_PATTERN = new RegExp(String.raw`(?<![\d\p{L}])(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?${MONTH}(?:,?\s+(\d{4}))?(?![\d\p{L}])`, 'gu');
+const MONTH_YEAR_PATTERN = new RegExp(String.raw`\b${MONTH}\s+(\d{4})(?![\d\p{L}])`, 'gu');
+/** "a.m." keeps its final period when it ends the sentence */
+const MERIDIEM = String.raw`([AaPp])\.?\s?[Mm](?:\.(?!\s+\p{Lu}|\s*$))?(?![\p{L}\d])`;
+const CLOCK_TIME_PATTERN = new RegExp(String.raw`(?<![\d:.])(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s?${MERIDIEM})?(?![\d:])`, 'gu');
+const HOUR_TIME_PATTERN = new RegExp(String.raw`(?<![\d:.,])(\d{1,2})\s?${MERIDIEM}`, 'gu');
+const RANGE_PATTERN = /(?<![\p{L}\d.,/-])([$£€¥₹]?\d[\d,.]*%?)\s?(?:[–—]|-(?!\s))\s?(?=[$£€¥₹]?\d)/gu;
+const CURRENCY_PATTERN = new RegExp(String.raw`(?<![\p{L}\d])${CURRENCY_SYMBOL}\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)${SCALE}`, 'gu');
+const TRAILING_CURRENCY_PATTERN = new RegExp(String.raw`${NUMBER}${SCALE}\s?(€|USD|GBP|EUR|JPY|INR)(?![\p{L}\d])`, 'gu');
+const PERCENT_PATTERN = new RegExp(String.raw`${NUMBER}\s?%`, 'gu');
+const UNIT_PATTERN = new RegExp(String.raw`${NUMBER}\s?${UNIT}(?![\p{L}\d])`, 'gu');
+const DECADE_PATTERN = /(?<![\p{L}\d])(1[1-9]|20)(\d)0['’]?s(?![\p{L}\d])/gu;
+const SHORT_DECADE_PATTERN = /['’]([2-9])0s(?![\p{L}\d])/gu;
+const ORDINAL_PATTERN = /(?<![\p{L}\d.,])(\d{1,3}(?:,\d{3})+|\d+)(st|nd|rd|th)(?![\p{L}\d])/gu;
+const YEAR = String.raw`(?:1[1-9]\d{2}|20\d{2})`;
+/** Four-digit numbers read as years: after these words, in a range of years, or before an era */
+const YEAR_PATTERN = new RegExp([
+  String.raw`(?<=\b(?:[Ii]n|[Ss]ince|[Uu]ntil|[Tt]ill|[Bb]y|[Ff]rom|[Dd]uring|[Bb]efore|[Aa]fter|[Cc]irca|ca\.|c\.|[Yy]ear)\s+)${YEAR}`,
+  String.raw`${YEAR}(?=\s+to\s+${YEAR}(?![\p{L}\d]|[.,]\d))`,
+  String.raw`(?<=${YEAR}\s+to\s+)${YEAR}`,
+  String.raw`(?<![\p{L}\d.,])\d{1,4}(?=\s?(?:AD|BC|BCE|CE)\b)`,
+].map(pattern => `${pattern}(?![\\p{L}\\d]|[.,]\\d)`).join('|'), 'gu');
+const NEGATIVE_PATTERN = /(?<=^|[\s(])[-−](?=\d)/g;
+const PLAIN_NUMBER_PATTERN = new RegExp(String.raw`${NUMBER}(?![\d\p{L}]|[.,]\d)`, 'gu');
+
+/**
+ * Finds the reading rules for a locale tag such as "en-GB"
+ * @param tag BCP 47 language tag
+ * @returns The locale's rules, American English for unknown tags
+ */
+export function resolveNormalizationLocale(tag: string = DEFAULT_NORMALIZATION_LOCALE): NormalizationLocale {
+  const region = tag.split(/[-_]/)[1]?.toUpperCase();
+  const rules = (region && LOCALES[region]) || AMERICAN;
+  return { id: tag, ...rules };
+}
+
+const plain = (value: string) => value.replace(/,/g, '');
+
+function numberToWords(value: string, locale: NormalizationLocale): string {
+  const digits = plain(value);
+  return digits.includes('.') ? decimalToWords(digits, locale) : cardinalToWords(Number(digits), locale);
+}
+
+const spellUnit = (name: string, locale: NormalizationLocale) =>
+  (locale.metricSpelling ? name.replace(/meter/g, 'metre').replace(/liter/g, 'litre') : name);
+
+const pluralize = (word: string) => (word.endsWith('y') ? `${word.slice(0, -1)}ies` : `${word}s`);
+
+function monthIndex(name: string): number {
+  const prefix = name.slice(0, 3).toLowerCase();
+  return MONTHS.findIndex(month => month.slice(0, 3).toLowerCase() === prefix);
+}
+
+function readDate(day: number, month: number, year: number | null, locale: NormalizationLocale, dayFirst = locale.dayFirst): string {
+  const dayWords = ordinalToWords(day, locale);
+  const yearWords = year === null ? '' : yearToWords(year, locale);
+  if (dayFirst) return `the ${dayWords} of ${MONTHS[month]}${yearWords ? ` ${yearWords}` : ''}`;
+  return `${MONTHS[month]} ${dayWords}${yearWords ? `, ${yearWords}` : ''}`;
+}
+
+const isValidDate = (day: number, month: number) => month >= 1 && month <= 12 && day >= 1 && day <= 31;
+
+function readPhoneNumber(phone: string): string {
+  const groups = phone.match(/\+|\d+/g) || [];
+  return groups
+    .map(group => (group === '+' ? 'plus' : digitsToWords(group)))
+    .join(', ')
+    .replace('plus, ', 'plus ');
+}
+
+function readTime(hours: number, minutes: number, seconds: number, meridiem: string | undefined, locale: NormalizationLocale): string {
+  const hourWords = cardinalToWords(hours, locale);
+  let time: string;
+  if (minutes === 0) {
+    time = meridiem ? hourWords : `${hourWords} ${hours > 12 || hours === 0 ? 'hundred' : "o'clock"}`;
+  } else {
+    time = `${hourWords} ${minutes < 10 ? `oh ${cardinalToWords(minutes)}` : cardinalToWords(minutes)}`;
+  }
+  if (seconds > 0) time += ` and ${cardinalToWords(seconds)} second${seconds === 1 ? '' : 's'}`;
+  return meridiem ? `${time} ${meridiem.toUpperCase()}M` : time;
+}
+
+function readCurrency(currency: Currency, amount: string, scale: string | undefined, locale: NormalizationLocale): string {
+  const value = plain(amount);
+  if (scale) return `${numberToWords(value, locale)} ${SCALE_WORDS[scale]} ${currency.plural}`;
+
+  const [whole, fraction = ''] = value.split('.');
+  const major = Number(whole);
+  const minor = fraction.length === 2 && currency.minorPlural ? Number(fraction) : 0;
+  if (fraction && !minor && !/^0+$/.test(fraction)) {
+    return `${decimalToWords(value, locale)} ${currency.plural}`;
+  }
+
+  const majorWords = `${cardinalToWords(major, locale)} ${major === 1 ? currency.singular : currency.plural}`;
+  if (!minor) return majorWords;
+  const minorWords = `${cardinalToWords(minor, locale)} ${minor === 1 ? currency.minorSingular : currency.minorPlural}`;
+  return major === 0 ? minorWords : `${majorWords} and ${minorWords}`;
+}
+
+type Rule = [RegExp, (locale: NormalizationLocale, match: string, ...groups: string[]) => string];
+
+/**
+ * Rules in the order they run: patterns that contain plain numbers
+ * (phone numbers, dates, money) come before the rules that read numbers
+ */
+const RULES: Rule[] = [
+  [PHONE_PATTERN, (_locale, phone) => readPhoneNumber(phone)],
+  [ISO_DATE_PATTERN, (locale, match, year, month, day) => (
+    isValidDate(Number(day), Number(month)) ? readDate(Number(day), Number(month) - 1, Number(year), locale) : match
+  )],
+  [NUMERIC_DATE_PATTERN, (locale, match, first, separator, second, yearText) => {
+    if (separator !== '/' && yearText.length !== 4) return match;
+    let [day, month] = locale.dayFirst ? [Number(first), Number(second)] : [Number(second), Number(first)];
+    // A date that only makes sense the other way round was written the other way round
+    if (month > 12 && day <= 12) [day, month] = [month, day];
+    if (!isValidDate(day, month)) return match;
+    const year = yearText.length === 2 ? (Number(yearText) < 50 ? 2000 : 1900) + Number(yearText) : Number(yearText);
+    return readDate(day, month - 1, year, locale);
+  }],
+  [MONTH_FIRST_DATE_PATTERN, (locale, match, month, day, year) => (
+    isValidDate(Number(day), monthIndex(month) + 1)
+      ? readDate(Number(day), monthIndex(month), year ? Number(year) : null, locale, false)
+      : match
+  )],
+  [DAY_FIRST_DATE_PATTERN, (locale, match, day, month, year) => (
+    isValidDate(Number(day), monthIndex(month) + 1)
+      ? readDate(Number(day), monthIndex(month), year ? Number(year) : null, locale, true)
+      : match
+  )],
+  [MONTH_YEAR_PATTERN, (locale, _match, month, year) => `${MONTHS[monthIndex(month)]} ${yearToWords(Number(year), locale)}`],
+  [CLOCK_TIME_PATTERN, (locale, match, hours, minutes, seconds, meridiem) => {
+    const [h, m, s] = [Number(hours), Number(minutes), Number(seconds || 0)];
+    if (h > (meridiem ? 12 : 23) || m > 59 || s > 59) return match;
+    return readTime(h, m, s, meridiem, locale);
+  }],
+  [HOUR_TIME_PATTERN, (locale, match, hours, meridiem) => (
+    Number(hours) >= 1 && Number(hours) <= 12 ? readTime(Number(hours), 0, 0, meridiem, locale) : match
+  )],
+  [RANGE_PATTERN, (_locale, _match, from) => `${from} to `],
+  [CURRENCY_PATTERN, (locale, _match, symbol, amount, scale) => readCurrency(CURRENCIES[symbol], amount, scale, locale)],
+  [TRAILING_CURRENCY_PATTERN, (locale, _match, amount, scale, symbol) => readCurrency(CURRENCIES[symbol], amount, scale, locale)],
+  [PERCENT_PATTERN, (locale, _match, value) => `${numberToWords(value, locale)} ${locale.percent}`],
+  [UNIT_PATTERN, (locale, _match, value, symbol) => {
+    const [, singular, plural] = UNITS.find(([unit]) => unit === symbol);
+    return `${numberToWords(value, locale)} ${spellUnit(plain(value) === '1' ? singular : plural, locale)}`;
+  }],
+  [DECADE_PATTERN, (locale, _match, century, decade) => pluralize(yearToWords(Number(`${century}${decade}0`), locale))],
+  [SHORT_DECADE_PATTERN, (_locale, _match, decade) => pluralize(cardinalToWords(Number(decade) * 10))],
+  [ORDINAL_PATTERN, (locale, _match, value) => ordinalToWords(Number(plain(value)), locale)],
+  [YEAR_PATTERN, (locale, year) => yearToWords(Number(year), locale)],
+  [NEGATIVE_PATTERN, () => 'minus '],
+  [PLAIN_NUMBER_PATTERN, (locale, _match, value) => (
+    /^0\d/.test(value) && !value.includes('.') ? digitsToWords(value) : numberToWords(value, locale)
+  )],
+];
+
+/**
+ * Writes numbers, dates, times, money, percentages, ranges, phone numbers
+ * and units out in words, so every provider reads them the same way
+ * instead of relying on its own text normalization
+ * @param text Text to normalize
+ * @param locale BCP 47 language tag whose reading rules apply (default: en-US)
+ * @returns Text with these written out as they are spoken
+ */
+export function normalizeText(text: string, locale: string = DEFAULT_NORMALIZATION_LOCALE): string {
+  const rules = resolveNormalizationLocale(locale);
+  return RULES.reduce(
+    (normalized, [pattern, read]) => normalized.replace(pattern, (match, ...groups) => read(rules, match, ...groups)),
+    text
+  );
+}
@@ -0,0 +1,33 @@
+/** Private use characters stand in for text that later rules must leave alone */
+const PLACEHOLDER_START = 0xe000;
+const PLACEHOLDER_END = 0xf8ff;
+const PLACEHOLDER_PATTERN = /[\uE000-\uF8FF]/g;
+
+export interface Placeholders {
+  /** Removes characters that would be taken for placeholders */
+  sanitize(text: string): string;
+  /** Holds text back, returning the placeholder that stands in for it */
+  hold(text: string): string;
+  /** Puts the held text back in place of its placeholders */
+  restore(text: string): string;
+}
+
+/**
+ * Creates a set of placeholders for one piece of text. Private use
+ * characters from symbol fonts can't be read anyway, so sanitize drops them.
+ * @returns The placeholder set
+ */
+export function createPlaceholders(): Placeholders {
+  const held: string[] = [];
+  return {
+    sanitize: text => text.replace(PLACEHOLDER_PATTERN, ''),
+    hold: (text) => {
+      if (PLACEHOLDER_START + held.length > PLACEHOLDER_END) {
+        throw new Error('Too many passages held back in one text; split it into smaller pieces.');
+      }
+      held.push(text);
+      return String.fromCharCode(PLACEHOLDER_START + held.length - 1);
+    },
+    restore: text => text.replace(PLACEHOLDER_PATTERN, ch => held[ch.charCodeAt(0) - PLACEHOLDER_START] ?? ''),
+  };
+}
@@ -0,0 +1,221 @@
+import { joinBlockText, joinPageText, type ExtractedDocument, type ExtractedPage, type TextBlock } from './extractedDocument';
+import { DEFAULT_CODE_MODE, narrateCode } from './codeBlocks';
+import { announceFigure } from './figureDetection';
+import { narrateTable } from './tableDetection';
+// Word lists from SCOWL, up to size 60 (words found in most dictionaries),
+// in the spelling-neutral, American and British variants
+import english10Url from 'wordlist-english/english-words-10.json?url';
+import english20Url from 'wordlist-english/english-words-20.json?url';
+import english35Url from 'wordlist-english/english-words-35.json?url';
+import english40Url from 'wordlist-english/english-words-40.json?url';
+import english50Url from 'wordlist-english/english-words-50.json?url';
+import english55Url from 'wordlist-english/english-words-55.json?url';
+import english60Url from 'wordlist-english/english-words-60.json?url';
+import american10Url from 'wordlist-english/american-words-10.json?url';
+import american20Url from 'wordlist-english/american-words-20.json?url';
+import american35Url from 'wordlist-english/american-words-35.json?url';
+import american40Url from 'wordlist-english/american-words-40.json?url';
+import american50Url from 'wordlist-english/american-words-50.json?url';
+import american55Url from 'wordlist-english/american-words-55.json?url';
+import american60Url from 'wordlist-english/american-words-60.json?url';
+import british10Url from 'wordlist-english/british-words-10.json?url';
+import british20Url from 'wordlist-english/british-words-20.json?url';
+import british35Url from 'wordlist-english/british-words-35.json?url';
+import british40Url from 'wordlist-english/british-words-40.json?url';
+import british50Url from 'wordlist-english/british-words-50.json?url';
+import british55Url from 'wordlist-english/british-words-55.json?url';
+import british60Url from 'wordlist-english/british-words-60.json?url';
+
+const WORD_LIST_URLS = [
+  english10Url, english20Url, english35Url, english40Url, english50Url, english55Url, english60Url,
+  american10Url, american20Url, american35Url, american40Url, american50Url, american55Url, american60Url,
+  british10Url, british20Url, british35Url, british40Url, british50Url, british55Url, british60Url,
+];
+
+const LIGATURES: Record<string, string> = {
+  'ﬀ': 'ff',
+  'ﬁ': 'fi',
+  'ﬂ': 'fl',
+  'ﬃ': 'ffi',
+  'ﬄ': 'ffl',
+  'ﬅ': 'st',
+  'ﬆ': 'st',
+};
+
+const SOFT_HYPHEN = '\u00AD';
+
+/** Word broken by a hyphen at the end of a line */
+const LINE_END_HYPHEN_PATTERN = /(\p{L}+)([-\u2010\u00AD])$/u;
+const LINE_START_WORD_PATTERN = /^[\p{L}\d]+/u;
+
+/** Three or more spaced capitals ("C H A P T E R") */
+const SPACED_CAPITALS_PATTERN = /(?<!\p{L})\p{Lu}(?: \p{Lu}){2,}(?!\p{L})/gu;
+/** Four or more spaced lowercase letters; shorter runs are often real words ("a b c") */
+const SPACED_LOWERCASE_PATTERN = /(?<!\p{L})\p{Ll}(?: \p{Ll}){3,}(?!\p{L})/gu;
+
+let wordListPromise: Promise<ReadonlySet<string>> | null = null;
+
+/**
+ * Loads the bundled English word list used to decide how to rejoin words.
+ * The list is loaded once and shared.
+ * @returns Lowercase words; empty when the list could not be loaded
+ */
+export function loadWordList(): Promise<ReadonlySet<string>> {
+  if (!wordListPromise) {
+    wordListPromise = Promise.all(WORD_LIST_URLS.map(async url => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Could not load the word list (${response.status}).`);
+      return response.json() as Promise<string[]>;
+    })).then(
+      lists => new Set(lists.flat().map(word => word.toLowerCase())),
+      error => {
+        // Without a dictionary, line-end hyphens are still removed, just less carefully
+        console.warn('Word list unavailable, repairing text without it:', error);
+        return new Set<string>();
+      }
+    );
+  }
+  return wordListPromise;
+}
+
+/**
+ * Replaces typographic ligature characters with the letters they stand for
+ * @param text Text that may contain ligatures such as "ﬁ"
+ * @returns The text with ligatures expanded
+ */
+export function expandLigatures(text: string): string {
+  return text.replace(/[\uFB00-\uFB06]/g, ligature => LIGATURES[ligature]);
+}
+
+/**
+ * Decides how a word broken across lines is rejoined: without the hyphen
+ * when it was only a line break ("infor- mation"), with it when the word is
+ * a real compound ("well- known")
+ * @param head Letters before the hyphen
+ * @param hyphen The hyphen character
+ * @param tail Letters starting the next line
+ * @param words Dictionary of lowercase words
+ * @returns True when the hyphen belongs to the word
+ */
+function keepsHyphen(head: string, hyphen: string, tail: string, words: ReadonlySet<string>): boolean {
+  if (hyphen === SOFT_HYPHEN) return false;
+  // Names and numbers after a hyphen are compounds ("Jean-Paul", "COVID-19")
+  if (/^[\p{Lu}\d]/u.test(tail)) return true;
+  if (words.size === 0) return false;
+
+  const joined = (head + tail).toLowerCase();
+  if (words.has(joined)) return false;
+  return words.has(head.toLowerCase()) && words.has(tail.toLowerCase());
+}
+
+/**
+ * Joins the lines of a block into one text, rejoining words hyphenated
+ * across line breaks
+ * @param lines Line texts in reading order
+ * @param words Dictionary of lowercase words
+ * @returns The block text
+ */
+export function joinLines(lines: string[], words: ReadonlySet<string>): string {
+  let text = '';
+
+  for (const line of lines) {
+    if (line.length === 0) continue;
+    if (text.length === 0) {
+      text = line;
+      continue;
+    }
+
+    const broken = LINE_END_HYPHEN_PATTERN.exec(text);
+    const tail = LINE_START_WORD_PATTERN.exec(line);
+    if (broken && tail) {
+      const [, head, hyphen] = broken;
+      const keep = keepsHyphen(head, hyphen, tail[0], words);
+      text = text.slice(0, -hyphen.length) + (keep ? '-' : '') + line;
+    } else {
+      text += ' ' + line;
+    }
+  }
+
+  return text;
+}
+
+function canMergeTokens(left: string, right: string, words: ReadonlySet<string>): boolean {
+  const leftWord = /^[^\p{L}\d]*(\p{L}+)$/u.exec(left)?.[1];
+  const rightWord = /^(\p{Ll}+)[^\p{L}\d]*$/u.exec(right)?.[1];
+  if (!leftWord || !rightWord) return false;
+  const leftLower = leftWord.toLowerCase();
+  if (words.has(leftLower) && words.has(rightWord)) return false;
+  return words.has(leftLower + rightWord);
+}
+
+/**
+ * Removes stray spaces inside words. pdf.js inserts them where a font's
+ * spacing makes letters look apart ("informa tion"), and some headings are
+ * letter-spaced on purpose ("C H A P T E R").
+ * @param text Text of a block
+ * @param words Dictionary of lowercase words
+ * @returns The text with split words rejoined
+ */
+export function fixSplitWords(text: string, words: ReadonlySet<string>): string {
+  const collapsed = text
+    .replace(SPACED_CAPITALS_PATTERN, run => run.replace(/ /g, ''))
+    .replace(SPACED_LOWERCASE_PATTERN, run => run.replace(/ /g, ''));
+  if (words.size === 0) return collapsed;
+
+  const tokens: string[] = [];
+  for (const token of collapsed.split(' ')) {
+    const previous = tokens[tokens.length - 1];
+    // A word is only rejoined when one half is not a word on its own, so "a part" stays apart
+    if (previous !== undefined && canMergeTokens(previous, token, words)) {
+      tokens[tokens.length - 1] = previous + token;
+    } else {
+      tokens.push(token);
+    }
+  }
+  return tokens.join(' ');
+}
+
+function repairBlock(block: TextBlock, words: ReadonlySet<string>): TextBlock {
+  const repairText = (text: string) => fixSplitWords(expandLigatures(text).split(SOFT_HYPHEN).join(''), words);
+  if (block.table) {
+    const table = {
+      header: block.table.header?.map(repairText) ?? null,
+      rows: block.table.rows.map(row => row.map(repairText)),
+    };
+    return { ...block, table, text: narrateTable(table, 'rows') };
+  }
+  // Equations are already in words, and word repair would join their letters
+  if (block.math) return block;
+  if (block.kind === 'code') return { ...block, text: narrateCode(block, DEFAULT_CODE_MODE) };
+  if (block.figure) {
+    const figure = { ...block.figure, caption: repairText(block.figure.caption) };
+    return { ...block, figure, text: announceFigure(figure) };
+  }
+
+  const lines = block.lines.map(line => expandLigatures(line.text));
+  const text = fixSplitWords(joinLines(lines, words).split(SOFT_HYPHEN).join(''), words);
+  return { ...block, text };
+}
+
+/**
+ * Cleans up the text of a page: rejoins words hyphenated across lines,
+ * expands ligatures, drops soft hyphens and removes stray spaces in words
+ * @param page The extracted page
+ * @param words Dictionary from loadWordList
+ * @returns The page with repaired block and page text
+ */
+export function repairPage(page: ExtractedPage, words: ReadonlySet<string>): ExtractedPage {
+  const blocks = page.blocks.map(block => repairBlock(block, words));
+  return { ...page, blocks, text: joinBlockText(blocks) };
+}
+
+/**
+ * Repairs the text of every page, see repairPage
+ * @param document The extracted document
+ * @param words Dictionary from loadWordList
+ * @returns The document with repaired text
+ */
+export function repairDocument(document: ExtractedDocument, words: ReadonlySet<string>): ExtractedDocument {
+  const pages = document.pages.map(page => repairPage(page, words));
+  return { ...document, pages, text: joinPageText(pages) };
+}
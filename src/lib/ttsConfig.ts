@@ -0,0 +1,78 @@
+import { loadSetting, saveSetting } from './projectStorage';
+import { DEFAULT_NORMALIZATION_LOCALE } from './textNormalizer';
+
+export interface TTSConfig {
+  /** Id of the registered provider used for conversions */
+  providerId: string;
+  voiceId?: string;
+  elevenLabsApiKey?: string;
+  /** Language tag whose rules are used to read numbers, dates and units */
+  locale: string;
+}
+
+export const DEFAULT_TTS_PROVIDER_ID = 'offline';
+
+const PROVIDER_SETTING = 'tts-provider';
+const ELEVENLABS_API_KEY_SETTING = 'elevenlabs-api-key';
+/** Voice ids only mean something to their own provider, so each provider keeps its own */
+const voiceSetting = (providerId: string) => `tts-voice:${providerId}`;
+
+/**
+ * Remembers the provider the user picked, which wins over VITE_TTS_PROVIDER
+ * @param providerId Id of a registered provider
+ */
+export function saveTTSProvider(providerId: string): void {
+  saveSetting(PROVIDER_SETTING, providerId);
+}
+
+/**
+ * Loads the voice the user picked for a provider
+ * @param providerId Provider id
+ * @returns The voice id, or undefined for the provider's default voice
+ */
+export function loadTTSVoice(providerId: string): string | undefined {
+  return loadSetting<string>(voiceSetting(providerId), '') || undefined;
+}
+
+/**
+ * Remembers the voice picked for a provider
+ * @param providerId Provider id
+ * @param voiceId Voice id, or undefined to go back to the default voice
+ */
+export function saveTTSVoice(providerId: string, voiceId?: string): void {
+  saveSetting(voiceSetting(providerId), voiceId || '');
+}
+
+/**
+ * Loads the ElevenLabs API key the user entered. Keys are never read from
+ * the Vite environment, which is compiled into the public bundle.
+ * @returns The key, or undefined when none was entered
+ */
+export function loadElevenLabsApiKey(): string | undefined {
+  return loadSetting<string>(ELEVENLABS_API_KEY_SETTING, '') || undefined;
+}
+
+/**
+ * Keeps the ElevenLabs API key in this browser only
+ * @param apiKey The key, or an empty string to forget it
+ */
+export function saveElevenLabsApiKey(apiKey: string): void {
+  saveSetting(ELEVENLABS_API_KEY_SETTING, apiKey);
+}
+
+/**
+ * Reads the TTS configuration: the provider, voice and API key chosen in the app,
+ * with VITE_TTS_PROVIDER, VITE_TTS_VOICE and VITE_TTS_LOCALE from the Vite
+ * environment as defaults
+ * @returns The active TTS configuration
+ */
+export function getTTSConfig(): TTSConfig {
+  const env = import.meta.env;
+  const providerId = loadSetting<string>(PROVIDER_SETTING, '') || env.VITE_TTS_PROVIDER || DEFAULT_TTS_PROVIDER_ID;
+  return {
+    providerId,
+    voiceId: loadTTSVoice(providerId) || env.VITE_TTS_VOICE || undefined,
+    elevenLabsApiKey: loadElevenLabsApiKey(),
+    locale: env.VITE_TTS_LOCALE || DEFAULT_NORMALIZATION_LOCALE,
+  };
+}
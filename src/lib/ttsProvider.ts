@@ -0,0 +1,93 @@
+export interface TTSOptions {
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  voiceId?: string;
+}
+
+export interface TTSVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+/**
+ * SSML an engine understands: none, whole <speak> documents, or only pause
+ * and phoneme tags written inline in plain text
+ */
+export type SsmlSupport = 'none' | 'full' | 'breaks-and-phonemes';
+
+export interface TTSProviderCapabilities {
+  /** Whether the provider needs an API key before it can synthesize */
+  requiresApiKey: boolean;
+  /** Whether synthesis sends text over the network */
+  requiresNetwork: boolean;
+  /** Largest chunk of text accepted in a single synthesize call */
+  maxChunkLength: number;
+  /** Largest chunk in UTF-8 bytes, for engines whose limit is counted in bytes */
+  maxChunkBytes?: number;
+  /** MIME type of the blobs returned by synthesize */
+  outputMimeType: string;
+  supportsRate: boolean;
+  supportsPitch: boolean;
+  /** Markup synthesize accepts; providers without any get plain text */
+  ssml: SsmlSupport;
+}
+
+export interface TTSCostEstimate {
+  characters: number;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Contract every speech engine implements so the service and UI never
+ * depend on a concrete engine.
+ */
+export interface TTSProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly capabilities: TTSProviderCapabilities;
+  synthesize(text: string, options: TTSOptions): Promise<Blob>;
+  listVoices(): Promise<TTSVoice[]>;
+  estimateCost(text: string): TTSCostEstimate;
+}
+
+const providers = new Map<string, TTSProvider>();
+
+/**
+ * Registers a provider, replacing any earlier one with the same id
+ * @param provider The provider implementation
+ */
+export function registerTTSProvider(provider: TTSProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Looks up a registered provider
+ * @param id Provider id
+ * @returns The provider
+ */
+export function getTTSProvider(id: string): TTSProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown TTS provider "${id}". Registered providers: ${[...providers.keys()].join(', ') || 'none'}`);
+  }
+  return provider;
+}
+
+/**
+ * Removes a provider, for example one whose API key was cleared
+ * @param id Provider id
+ */
+export function unregisterTTSProvider(id: string): void {
+  providers.delete(id);
+}
+
+export function hasTTSProvider(id: string): boolean {
+  return providers.has(id);
+}
+
+export function listTTSProviders(): TTSProvider[] {
+  return [...providers.values()];
+}
@@ -1,19 +1,55 @@
-import { preprocessTextForTTS, splitTextIntoChunks } from './captionGenerator';
+import type { TextPreprocessingOptions } from './captionGenerator';
+import { assembleAudioChunks } from './audioAssembler';
+import { BrowserSpeechProvider } from './browserSpeechProvider';
+import { startChunkPreparer } from './chunkingClient';
+import { ELEVENLABS_PROVIDER_ID, ELEVENLABS_PROVIDER_NAME, ElevenLabsProvider } from './elevenLabsProvider';
+import { OfflineSpeechProvider } from './offlineSpeechProvider';
+import { preprocessingOptions, type SpeechScript } from './speechChunks';
+import { getTTSConfig, saveElevenLabsApiKey } from './ttsConfig';
+import {
+  getTTSProvider,
+  hasTTSProvider,
+  listTTSProviders,
+  registerTTSProvider,
+  unregisterTTSProvider,
+  type TTSCostEstimate,
+  type TTSOptions,
+  type TTSProvider,
+  type TTSVoice,
+} from './ttsProvider';
+
+export type { TTSOptions } from './ttsProvider';
+export type { SpeechScript } from './speechChunks';
+
+/** Audio for one text of a streamed conversion */
+export interface SpeechSegment {
+  /** Position of the source text in the input sequence */
+  sourceIndex: number;
+  /** Source text of the segment */
+  text: string;
+  blob: Blob;
+  /** Start time on the overall timeline, in seconds */
+  start: number;
+  /** Duration in seconds, including the pause that follows the segment */
+  duration: number;
+  /** Preprocessed text of every synthesized chunk */
+  chunks: string[];
+}
 
-export interface TTSOptions {
-  rate?: number;
-  pitch?: number;
-  volume?: number;
-  voice?: SpeechSynthesisVoice;
+export interface SpeechGenerationOptions extends TTSOptions, TextPreprocessingOptions {
+  /** Pause inserted between synthesized chunks in milliseconds */
+  chunkPauseMs?: number;
+  /** Sample rate of the assembled WAV */
+  sampleRate?: number;
+  /** Stops synthesis between chunks */
+  signal?: AbortSignal;
 }
 
 export class TextToSpeechService {
   private static instance: TextToSpeechService;
-  private voices: SpeechSynthesisVoice[] = [];
-  private isVoicesLoaded = false;
 
   private constructor() {
-    this.loadVoices();
+    this.registerBuiltInProviders();
   }
 
   public static getInstance(): TextToSpeechService {
@@ -23,172 +59,126 @@ export class TextToSpeechService {
     return TextToSpeechService.instance;
   }
 
-  private async loadVoices(): Promise<void> {
-    return new Promise((resolve) => {
-      const loadVoicesHandler = () => {
-        this.voices = speechSynthesis.getVoices();
-        this.isVoicesLoaded = true;
-        resolve();
-      };
-
-      // Check if voices are already loaded
-      if (speechSynthesis.getVoices().length > 0) {
-        loadVoicesHandler();
-      } else {
-        // Wait for voices to be loaded
-        speechSynthesis.onvoiceschanged = loadVoicesHandler;
-        // Fallback timeout
-        setTimeout(loadVoicesHandler, 1000);
-      }
-    });
-  }
+  private registerBuiltInProviders(): void {
+    const config = getTTSConfig();
 
-  public async getVoices(): Promise<SpeechSynthesisVoice[]> {
-    if (!this.isVoicesLoaded) {
-      await this.loadVoices();
+    registerTTSProvider(new OfflineSpeechProvider());
+    registerTTSProvider(new BrowserSpeechProvider());
+    if (config.elevenLabsApiKey) {
+      registerTTSProvider(new ElevenLabsProvider({ apiKey: config.elevenLabsApiKey }));
     }
-    return this.voices;
   }
 
-  public async getBestVoice(): Promise<SpeechSynthesisVoice | null> {
-    const voices = await this.getVoices();
-    
-    // Prefer English voices, then neural/premium voices
-    const priorities = [
-      (v: SpeechSynthesisVoice) => v.lang.includes('en-US') && v.name.includes('Neural'),
-      (v: SpeechSynthesisVoice) => v.lang.includes('en-US') && v.name.includes('Premium'),
-      (v: SpeechSynthesisVoice) => v.lang.includes('en-US'),
-      (v: SpeechSynthesisVoice) => v.lang.includes('en'),
-      (v: SpeechSynthesisVoice) => v.default,
-    ];
-
-    for (const priority of priorities) {
-      const voice = voices.find(priority);
-      if (voice) return voice;
-    }
-
-    return voices[0] || null;
+  /**
+   * Saves the ElevenLabs API key entered by the user and makes the provider
+   * available with it, or removes the provider when the key is cleared
+   * @param apiKey The key, or an empty string
+   */
+  public setElevenLabsApiKey(apiKey: string): void {
+    saveElevenLabsApiKey(apiKey);
+    if (apiKey) registerTTSProvider(new ElevenLabsProvider({ apiKey }));
+    else unregisterTTSProvider(ELEVENLABS_PROVIDER_ID);
   }
 
-  public async generateSpeech(text: string, options: TTSOptions = {}): Promise<Blob> {
-    const preprocessedText = preprocessTextForTTS(text);
-    const chunks = splitTextIntoChunks(preprocessedText, 300); // Smaller chunks for better control
-    
-    const audioChunks: Blob[] = [];
-    
-    for (const chunk of chunks) {
-      const audioBlob = await this.synthesizeChunk(chunk, options);
-      audioChunks.push(audioBlob);
-    }
-
-    // Combine all audio chunks
-    return new Blob(audioChunks, { type: 'audio/wav' });
+  public getProvider(providerId: string = getTTSConfig().providerId): TTSProvider {
+    return getTTSProvider(providerId);
   }
 
-  private async synthesizeChunk(text: string, options: TTSOptions): Promise<Blob> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        // For web-based TTS, we'll use a different approach since we can't directly record SpeechSynthesis
-        // This is a simplified version - in production, you'd want to use a proper TTS API
-        
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.rate = options.rate || 0.9;
-        utterance.pitch = options.pitch || 1.0;
-        utterance.volume = options.volume || 1.0;
-        
-        const voice = options.voice || await this.getBestVoice();
-        if (voice) {
-          utterance.voice = voice;
-        }
-
-        // Since we can't directly capture browser TTS audio, we'll create a simple audio buffer
-        // In a real implementation, you'd use:
-        // 1. A server-side TTS service (Azure Cognitive Services, Google Cloud TTS, etc.)
-        // 2. ElevenLabs API for high-quality voices
-        // 3. Or record the browser's speech synthesis (requires more complex setup)
+  /**
+   * Tells whether a provider can be used, which for ElevenLabs means an API key was entered
+   * @param providerId Provider id
+   */
+  public hasProvider(providerId: string): boolean {
+    return hasTTSProvider(providerId);
+  }
 
-        const duration = this.estimateChunkDuration(text);
-        const audioBuffer = this.createSimpleAudioBuffer(duration);
-        
-        resolve(new Blob([audioBuffer], { type: 'audio/wav' }));
+  /**
+   * Lists the voices of a provider
+   * @param providerId Provider id, the configured one by default
+   */
+  public async getVoices(providerId?: string): Promise<TTSVoice[]> {
+    return this.getProvider(providerId).listVoices();
+  }
 
-      } catch (error) {
-        reject(error);
-      }
-    });
+  /**
+   * Estimates what converting the text costs with a provider
+   * @param text Text to convert
+   * @param providerId Provider id, the configured one by default
+   */
+  public estimateCost(text: string, providerId?: string): TTSCostEstimate {
+    return this.getProvider(providerId).estimateCost(text);
   }
 
-  private estimateChunkDuration(text: string): number {
-    // Rough estimation: average speaking rate is 150-160 WPM
-    const words = text.split(' ').length;
-    const wordsPerMinute = 150;
-    return Math.max((words / wordsPerMinute) * 60, 1); // Minimum 1 second
+  /**
+   * Tells whether a provider reads <phoneme> tags, so IPA-only pronunciations
+   * are heard instead of silently dropped
+   * @param providerId Provider id
+   */
+  public readsPhonemes(providerId: string): boolean {
+    // ElevenLabs reads them before its API key has been entered too
+    if (!hasTTSProvider(providerId)) return providerId === ELEVENLABS_PROVIDER_ID;
+    return getTTSProvider(providerId).capabilities.ssml !== 'none';
   }
 
-  private createSimpleAudioBuffer(duration: number): ArrayBuffer {
-    // Create a simple WAV file buffer
-    // This is a placeholder - in production, use actual TTS audio
-    const sampleRate = 44100;
-    const samples = duration * sampleRate;
-    const buffer = new ArrayBuffer(44 + samples * 2); // WAV header + 16-bit samples
-    const view = new DataView(buffer);
-    
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-    
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + samples * 2, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, 1, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * 2, true);
-    view.setUint16(32, 2, true);
-    view.setUint16(34, 16, true);
-    writeString(36, 'data');
-    view.setUint32(40, samples * 2, true);
-    
-    // Generate simple audio data (silence for now)
-    for (let i = 0; i < samples; i++) {
-      view.setInt16(44 + i * 2, 0, true);
+  /**
+   * Lists the providers the user can pick, ElevenLabs included before its
+   * API key has been entered
+   * @returns Provider ids and names
+   */
+  public getProviderChoices(): { id: string; name: string }[] {
+    const choices = listTTSProviders().map(({ id, name }) => ({ id, name }));
+    if (!choices.some(choice => choice.id === ELEVENLABS_PROVIDER_ID)) {
+      choices.push({ id: ELEVENLABS_PROVIDER_ID, name: ELEVENLABS_PROVIDER_NAME });
     }
-    
-    return buffer;
+    return choices;
   }
 
-  // Method to integrate with ElevenLabs API (when you're ready to use it)
-  public async generateSpeechWithElevenLabs(
-    text: string, 
-    voiceId: string = 'ErXwobaYiN019PkySvjV', // Default voice ID
-    apiKey: string
-  ): Promise<Blob> {
-    const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': apiKey
-      },
-      body: JSON.stringify({
-        text: preprocessTextForTTS(text),
-        model_id: 'eleven_monolingual_v1',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.5
+  /**
+   * Synthesizes texts one after another and yields the audio of each as soon
+   * as it is ready, so playback can start while later texts are still being
+   * produced. Scripts carry the structure of their text, which becomes SSML
+   * for providers that support it.
+   * @param texts Texts or scripts to speak, in order; each one becomes a segment
+   * @param options Voice options plus assembly settings
+   * @param providerId Provider to use (default: the configured provider)
+   * @returns Segments in order, with their place on the overall timeline
+   */
+  public async *streamSpeech(
+    texts: AsyncIterable<string | SpeechScript> | Iterable<string | SpeechScript>,
+    options: SpeechGenerationOptions = {},
+    providerId?: string
+  ): AsyncGenerator<SpeechSegment> {
+    const provider = this.getProvider(providerId);
+    // Segmenting and preprocessing a long section takes a while, so it runs in a worker
+    const preparer = startChunkPreparer();
+    const preprocessing = preprocessingOptions(options);
+
+    try {
+      let sourceIndex = 0;
+      let start = 0;
+      for await (const input of texts) {
+        const text = typeof input === 'string' ? input : input.text;
+        const chunks = await preparer.prepare({ input, capabilities: provider.capabilities, options: preprocessing });
+        if (chunks.length > 0) {
+          const audioChunks: Blob[] = [];
+          for (const chunk of chunks) {
+            options.signal?.throwIfAborted();
+            audioChunks.push(await provider.synthesize(chunk, options));
+          }
+          options.signal?.throwIfAborted();
+
+          const assembled = await assembleAudioChunks(audioChunks, {
+            sampleRate: options.sampleRate,
+            pauseMs: options.chunkPauseMs,
+            trailingPauseMs: options.chunkPauseMs ?? 250,
+          });
+          yield { sourceIndex, text, blob: assembled.blob, start, duration: assembled.duration, chunks };
+          start += assembled.duration;
         }
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`ElevenLabs API error: ${response.statusText}`);
+        sourceIndex++;
+      }
+    } finally {
+      preparer.dispose();
     }
-
-    return await response.blob();
   }
-}
\ No newline at end of file
+}
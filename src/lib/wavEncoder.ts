@@ -0,0 +1,59 @@
+/**
+ * Encodes PCM channel data as a 16-bit little-endian WAV file
+ * @param channels One Float32Array per channel, all the same length
+ * @param sampleRate Sample rate in Hz
+ * @returns The complete WAV file
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const length = channels[0]?.length || 0;
+  const numberOfChannels = channels.length;
+
+  const arrayBuffer = new ArrayBuffer(44 + length * numberOfChannels * 2);
+  const view = new DataView(arrayBuffer);
+
+  // WAV header
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + length * numberOfChannels * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numberOfChannels * 2, true);
+  view.setUint16(32, numberOfChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, length * numberOfChannels * 2, true);
+
+  // Convert float samples to 16-bit PCM
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+      view.setInt16(offset, sample * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+
+  return arrayBuffer;
+}
+
+/**
+ * Encodes a Web Audio buffer as a WAV file
+ * @param buffer The rendered audio
+ * @returns The complete WAV file
+ */
+export function audioBufferToWav(buffer: AudioBuffer): ArrayBuffer {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(buffer.getChannelData(channel));
+  }
+  return encodeWav(channels, buffer.sampleRate);
+}
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TTS_PROVIDER?: string;
+  readonly VITE_TTS_VOICE?: string;
+  readonly VITE_TTS_LOCALE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
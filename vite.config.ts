@@ -19,4 +19,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The extraction worker lazy-loads pdf.js and OCR, which needs code splitting
+    format: "es",
+  },
 }));